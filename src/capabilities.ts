@@ -0,0 +1,97 @@
+/**
+ * Adapter capabilities and the tools that depend on them.
+ *
+ * Debug adapters advertise optional DAP features in the initialize
+ * response. Tools check the relevant capability before sending a request
+ * so agents get a clear "not supported" error instead of an adapter
+ * rejection, which also lets the server front adapters other than
+ * netcoredbg.
+ */
+
+import { Capabilities } from "./dap-client.js";
+
+export type CapabilityName = keyof Capabilities & string;
+
+export interface CapabilityInfo {
+  name: CapabilityName;
+  feature: string;
+  tools: string[];
+}
+
+/**
+ * Capabilities the server uses, with the tools (or tool options) that need
+ * them or fall back to a slower or harsher path without them.
+ */
+export const CAPABILITY_TOOLS: CapabilityInfo[] = [
+  {
+    name: "supportsConditionalBreakpoints",
+    feature: "Conditional breakpoints",
+    tools: ["set_breakpoint (condition)", "set_function_breakpoint (condition)"],
+  },
+  {
+    name: "supportsHitConditionalBreakpoints",
+    feature: "Hit count breakpoints",
+    tools: ["set_breakpoint (hitCondition)"],
+  },
+  {
+    name: "supportsLogPoints",
+    feature: "Logpoints",
+    tools: ["set_breakpoint (logMessage)"],
+  },
+  {
+    name: "supportsFunctionBreakpoints",
+    feature: "Function breakpoints",
+    tools: ["set_function_breakpoint", "remove_function_breakpoint"],
+  },
+  {
+    name: "supportsExceptionOptions",
+    feature: "Exception breakpoints by type",
+    tools: ["set_exception_breakpoints (exceptionTypes)"],
+  },
+  {
+    name: "supportsExceptionInfoRequest",
+    feature: "Exception details",
+    tools: ["exception_info"],
+  },
+  {
+    name: "supportsSetVariable",
+    feature: "Changing variables",
+    tools: ["set_variable (variablesReference + name)"],
+  },
+  {
+    name: "supportsSetExpression",
+    feature: "Assigning to expressions",
+    tools: ["set_variable (expression)"],
+  },
+  {
+    name: "supportsVariablePaging",
+    feature: "Paging large collections",
+    tools: ["variables (start/count)", "inspect (maxChildren)", "(without it, all children are fetched and then sliced)"],
+  },
+  {
+    name: "supportsTerminateRequest",
+    feature: "Graceful termination",
+    tools: ["terminate, terminate_session (without it they disconnect and end the debuggee)"],
+  },
+  {
+    name: "supportsCancelRequest",
+    feature: "Cancelling timed-out requests",
+    tools: ["(all tools, on request timeout)"],
+  },
+];
+
+/**
+ * Throw a clear error if the adapter doesn't advertise a capability.
+ */
+export function requireCapability(
+  capabilities: Capabilities,
+  name: CapabilityName,
+  feature?: string
+): void {
+  if (capabilities[name]) return;
+
+  const label = feature || CAPABILITY_TOOLS.find((c) => c.name === name)?.feature || name;
+  throw new Error(
+    `${label} is not supported by this adapter (${name}). Use 'capabilities' to see what it supports.`
+  );
+}
@@ -1,5 +1,6 @@
-import { spawn, ChildProcess } from "child_process";
 import { EventEmitter } from "events";
+import { createTransport, DAPTransport, TransportConfig } from "./dap-transport.js";
+import { DAPRecorder } from "./dap-recorder.js";
 
 // DAP Message Types
 export interface DAPMessage {
@@ -43,6 +44,12 @@ export interface SourceBreakpoint {
   logMessage?: string;
 }
 
+export interface FunctionBreakpoint {
+  name: string;
+  condition?: string;
+  hitCondition?: string;
+}
+
 export interface Breakpoint {
   id?: number;
   verified: boolean;
@@ -73,6 +80,27 @@ export interface Variable {
   name: string;
   value: string;
   type?: string;
+  evaluateName?: string;
+  variablesReference: number;
+  namedVariables?: number;
+  indexedVariables?: number;
+  presentationHint?: {
+    kind?: string;
+    attributes?: string[];
+    visibility?: string;
+  };
+}
+
+// Arguments for fetching part of a large container
+export interface VariablesPaging {
+  filter?: "indexed" | "named";
+  start?: number;
+  count?: number;
+}
+
+export interface EvaluateResult {
+  result: string;
+  type?: string;
   variablesReference: number;
   namedVariables?: number;
   indexedVariables?: number;
@@ -83,14 +111,62 @@ export interface Thread {
   name: string;
 }
 
+export interface ExceptionBreakpointsFilter {
+  filter: string;
+  label: string;
+  default?: boolean;
+}
+
+export interface ExceptionOptions {
+  path?: Array<{ negate?: boolean; names: string[] }>;
+  breakMode: "never" | "always" | "unhandled" | "userUnhandled";
+}
+
+export interface ExceptionDetails {
+  message?: string;
+  typeName?: string;
+  fullTypeName?: string;
+  evaluateName?: string;
+  stackTrace?: string;
+  innerException?: ExceptionDetails[];
+}
+
+export interface ExceptionInfo {
+  exceptionId: string;
+  description?: string;
+  breakMode: string;
+  details?: ExceptionDetails;
+}
+
+export interface Module {
+  id: number | string;
+  name: string;
+  path?: string;
+  isOptimized?: boolean;
+  isUserCode?: boolean;
+  version?: string;
+  symbolStatus?: string;
+  symbolFilePath?: string;
+  dateTimeStamp?: string;
+  addressRange?: string;
+}
+
 export interface Capabilities {
   supportsConfigurationDoneRequest?: boolean;
   supportsFunctionBreakpoints?: boolean;
   supportsConditionalBreakpoints?: boolean;
+  supportsHitConditionalBreakpoints?: boolean;
+  supportsLogPoints?: boolean;
   supportsEvaluateForHovers?: boolean;
   supportsSetVariable?: boolean;
+  supportsSetExpression?: boolean;
+  supportsVariablePaging?: boolean;
   supportsStepBack?: boolean;
   supportsTerminateRequest?: boolean;
+  supportsCancelRequest?: boolean;
+  supportsExceptionOptions?: boolean;
+  supportsExceptionInfoRequest?: boolean;
+  exceptionBreakpointFilters?: ExceptionBreakpointsFilter[];
   [key: string]: unknown;
 }
 
@@ -100,6 +176,7 @@ export interface StoppedEventBody {
   threadId?: number;
   allThreadsStopped?: boolean;
   text?: string;
+  hitBreakpointIds?: number[];
 }
 
 export interface OutputEventBody {
@@ -109,47 +186,187 @@ export interface OutputEventBody {
   line?: number;
 }
 
+export interface ModuleEventBody {
+  reason: "new" | "changed" | "removed";
+  module: Module;
+}
+
+export interface LoadedSourceEventBody {
+  reason: "new" | "changed" | "removed";
+  source: Source;
+}
+
+export interface BreakpointEventBody {
+  reason: "changed" | "new" | "removed" | string;
+  breakpoint: Breakpoint;
+}
+
+export interface ExitedEventBody {
+  exitCode: number;
+}
+
 export interface TerminatedEventBody {
   restart?: boolean;
 }
 
+// Request timeouts
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+// Commands that legitimately take longer than the default
+const COMMAND_TIMEOUTS_MS: Record<string, number> = {
+  launch: 120000,
+  attach: 60000,
+  configurationDone: 60000,
+  disconnect: 5000,
+  terminate: 5000,
+  cancel: 5000,
+};
+
+// Consecutive timeouts before the adapter is considered hung
+const UNRESPONSIVE_AFTER_TIMEOUTS = 3;
+
+export interface RequestOptions {
+  timeoutMs?: number;
+}
+
+export interface AdapterHealth {
+  state: "healthy" | "unresponsive";
+  consecutiveTimeouts: number;
+  lastTimeout?: { command: string; at: Date };
+}
+
+// Message framing
+const HEADER_DELIMITER = Buffer.from("\r\n\r\n", "ascii");
+const CONTENT_LENGTH_MARKER = Buffer.from("Content-Length:", "ascii");
+const MAX_HEADER_BYTES = 1024;
+
+/**
+ * Splits the adapter's stdout byte stream into DAP message bodies.
+ *
+ * Content-Length counts bytes, not characters, so framing works on raw
+ * Buffers and only decodes a body once all of its bytes have arrived. This
+ * also keeps multi-byte UTF-8 characters intact when they are split across
+ * chunks. Malformed headers and stray non-DAP output are skipped so the
+ * stream can resynchronise on the next Content-Length header.
+ */
+export class DAPMessageFramer {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(private onError: (err: Error) => void = () => {}) {}
+
+  /**
+   * Add a chunk of bytes and return the bodies of any complete messages.
+   */
+  push(chunk: Buffer): string[] {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+
+    const bodies: string[] = [];
+    while (true) {
+      const headerEnd = this.buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd === -1) {
+        this.discardRunawayHeader();
+        break;
+      }
+
+      const header = this.buffer.toString("ascii", 0, headerEnd);
+      const match = header.match(/Content-Length:\s*(\d+)/i);
+      if (!match) {
+        // Invalid header, skip it
+        this.onError(
+          new Error(`Skipped malformed DAP header: ${JSON.stringify(header.slice(0, 100))}`)
+        );
+        this.buffer = this.buffer.subarray(headerEnd + HEADER_DELIMITER.length);
+        continue;
+      }
+
+      const contentLength = parseInt(match[1], 10);
+      const messageStart = headerEnd + HEADER_DELIMITER.length;
+      const messageEnd = messageStart + contentLength;
+
+      if (this.buffer.length < messageEnd) {
+        // Not enough data yet
+        break;
+      }
+
+      bodies.push(this.buffer.toString("utf8", messageStart, messageEnd));
+      this.buffer = this.buffer.subarray(messageEnd);
+    }
+
+    return bodies;
+  }
+
+  /**
+   * Number of buffered bytes not yet framed into a message.
+   */
+  pendingBytes(): number {
+    return this.buffer.length;
+  }
+
+  reset(): void {
+    this.buffer = Buffer.alloc(0);
+  }
+
+  /**
+   * Drop bytes that can never become a header (e.g. stray log output with
+   * no blank line after it), keeping anything from the next marker onwards.
+   */
+  private discardRunawayHeader(): void {
+    if (this.buffer.length <= MAX_HEADER_BYTES) return;
+
+    const marker = this.buffer.indexOf(CONTENT_LENGTH_MARKER, 1);
+    const keepFrom =
+      marker !== -1 ? marker : this.buffer.length - (CONTENT_LENGTH_MARKER.length - 1);
+
+    this.onError(new Error(`Skipped ${keepFrom} bytes of non-DAP output`));
+    this.buffer = this.buffer.subarray(keepFrom);
+  }
+}
+
 export class DAPClient extends EventEmitter {
-  private process: ChildProcess | null = null;
+  private transport: DAPTransport | null = null;
   private seq = 1;
   private pendingRequests = new Map<
     number,
-    { resolve: (value: DAPResponse) => void; reject: (error: Error) => void }
+    {
+      command: string;
+      timer: NodeJS.Timeout;
+      resolve: (value: DAPResponse) => void;
+      reject: (error: Error) => void;
+    }
   >();
-  private buffer = "";
+  private health: AdapterHealth = { state: "healthy", consecutiveTimeouts: 0 };
+  private framer = new DAPMessageFramer((err) => this.emit("error", err));
   private capabilities: Capabilities = {};
   private currentThreadId: number | null = null;
+  private recorder: DAPRecorder | null = null;
 
-  constructor(private netcoredbgPath: string = "netcoredbg") {
+  constructor(private transportConfig: TransportConfig = { type: "stdio" }) {
     super();
   }
 
   async start(): Promise<Capabilities> {
-    this.process = spawn(this.netcoredbgPath, ["--interpreter=vscode"], {
-      stdio: ["pipe", "pipe", "pipe"],
-    });
+    const transport = createTransport(this.transportConfig);
 
-    this.process.stdout!.on("data", (data: Buffer) => {
-      this.handleData(data.toString());
+    transport.on("data", (data: Buffer) => {
+      this.handleData(data);
     });
 
-    this.process.stderr!.on("data", (data: Buffer) => {
-      this.emit("stderr", data.toString());
+    transport.on("stderr", (data: string) => {
+      this.emit("stderr", data);
     });
 
-    this.process.on("close", (code) => {
+    transport.on("close", (code) => {
       this.emit("close", code);
       this.cleanup();
     });
 
-    this.process.on("error", (err) => {
+    transport.on("error", (err) => {
       this.emit("error", err);
     });
 
+    await transport.open();
+    this.transport = transport;
+
     // Send initialize request
     const response = await this.sendRequest("initialize", {
       clientID: "mcp-netcoredbg",
@@ -165,39 +382,11 @@ export class DAPClient extends EventEmitter {
     return this.capabilities;
   }
 
-  private handleData(data: string): void {
-    this.buffer += data;
-    this.processBuffer();
-  }
-
-  private processBuffer(): void {
-    while (true) {
-      // Look for Content-Length header
-      const headerEnd = this.buffer.indexOf("\r\n\r\n");
-      if (headerEnd === -1) break;
-
-      const header = this.buffer.substring(0, headerEnd);
-      const match = header.match(/Content-Length:\s*(\d+)/i);
-      if (!match) {
-        // Invalid header, skip it
-        this.buffer = this.buffer.substring(headerEnd + 4);
-        continue;
-      }
-
-      const contentLength = parseInt(match[1], 10);
-      const messageStart = headerEnd + 4;
-      const messageEnd = messageStart + contentLength;
-
-      if (this.buffer.length < messageEnd) {
-        // Not enough data yet
-        break;
-      }
-
-      const messageText = this.buffer.substring(messageStart, messageEnd);
-      this.buffer = this.buffer.substring(messageEnd);
-
+  private handleData(data: Buffer): void {
+    for (const messageText of this.framer.push(data)) {
       try {
         const message = JSON.parse(messageText) as DAPMessage;
+        this.recorder?.record("in", message);
         this.handleMessage(message);
       } catch (err) {
         this.emit("error", new Error(`Failed to parse DAP message: ${err}`));
@@ -211,6 +400,8 @@ export class DAPClient extends EventEmitter {
       const pending = this.pendingRequests.get(response.request_seq);
       if (pending) {
         this.pendingRequests.delete(response.request_seq);
+        clearTimeout(pending.timer);
+        this.markResponsive();
         if (response.success) {
           pending.resolve(response);
         } else {
@@ -238,8 +429,12 @@ export class DAPClient extends EventEmitter {
     }
   }
 
-  async sendRequest(command: string, args?: unknown): Promise<DAPResponse> {
-    if (!this.process || !this.process.stdin) {
+  async sendRequest(
+    command: string,
+    args?: unknown,
+    options: RequestOptions = {}
+  ): Promise<DAPResponse> {
+    if (!this.transport || !this.transport.isOpen()) {
       throw new Error("DAP client not started");
     }
 
@@ -250,16 +445,65 @@ export class DAPClient extends EventEmitter {
       command,
       arguments: args,
     };
+    this.recorder?.record("out", request);
 
     const message = JSON.stringify(request);
     const header = `Content-Length: ${Buffer.byteLength(message)}\r\n\r\n`;
+    const timeoutMs = options.timeoutMs ?? COMMAND_TIMEOUTS_MS[command] ?? DEFAULT_REQUEST_TIMEOUT_MS;
 
     return new Promise((resolve, reject) => {
-      this.pendingRequests.set(seq, { resolve, reject });
-      this.process!.stdin!.write(header + message);
+      const timer = setTimeout(() => this.handleTimeout(seq), timeoutMs);
+      this.pendingRequests.set(seq, { command, timer, resolve, reject });
+      this.transport!.write(header + message);
     });
   }
 
+  /**
+   * Ask the adapter to cancel a pending request, if it supports that.
+   */
+  async cancel(requestId: number): Promise<boolean> {
+    if (!this.capabilities.supportsCancelRequest || !this.isRunning()) {
+      return false;
+    }
+    try {
+      await this.sendRequest("cancel", { requestId });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private handleTimeout(seq: number): void {
+    const pending = this.pendingRequests.get(seq);
+    if (!pending) return;
+
+    this.pendingRequests.delete(seq);
+    pending.reject(
+      new Error(`Request '${pending.command}' timed out. The debug adapter may be unresponsive.`)
+    );
+
+    // A cancel that times out says nothing new about the adapter
+    if (pending.command === "cancel") return;
+    if (pending.command !== "disconnect") {
+      this.cancel(seq);
+    }
+
+    this.health.consecutiveTimeouts++;
+    this.health.lastTimeout = { command: pending.command, at: new Date() };
+    if (
+      this.health.state === "healthy" &&
+      this.health.consecutiveTimeouts >= UNRESPONSIVE_AFTER_TIMEOUTS
+    ) {
+      this.health.state = "unresponsive";
+      this.emit("unresponsive", this.getHealth());
+    }
+  }
+
+  private markResponsive(): void {
+    this.health.consecutiveTimeouts = 0;
+    this.health.state = "healthy";
+  }
+
   // High-level methods
 
   async launch(program: string, args?: string[], cwd?: string): Promise<void> {
@@ -274,11 +518,16 @@ export class DAPClient extends EventEmitter {
     await this.sendRequest("configurationDone", {});
   }
 
+  /**
+   * Attach to a process. Call configurationDone() once breakpoints are set.
+   */
   async attach(processId: number): Promise<void> {
     await this.sendRequest("attach", {
       processId,
     });
+  }
 
+  async configurationDone(): Promise<void> {
     await this.sendRequest("configurationDone", {});
   }
 
@@ -295,6 +544,11 @@ export class DAPClient extends EventEmitter {
     return (response.body as { breakpoints: Breakpoint[] }).breakpoints;
   }
 
+  async setFunctionBreakpoints(breakpoints: FunctionBreakpoint[]): Promise<Breakpoint[]> {
+    const response = await this.sendRequest("setFunctionBreakpoints", { breakpoints });
+    return (response.body as { breakpoints: Breakpoint[] }).breakpoints;
+  }
+
   async removeBreakpoints(sourcePath: string): Promise<void> {
     await this.sendRequest("setBreakpoints", {
       source: { path: sourcePath },
@@ -302,6 +556,34 @@ export class DAPClient extends EventEmitter {
     });
   }
 
+  async setExceptionBreakpoints(
+    filters: string[],
+    exceptionOptions?: ExceptionOptions[]
+  ): Promise<void> {
+    const args: Record<string, unknown> = { filters };
+    if (exceptionOptions && exceptionOptions.length > 0) {
+      args.exceptionOptions = exceptionOptions;
+    }
+    await this.sendRequest("setExceptionBreakpoints", args);
+  }
+
+  async source(source: Source): Promise<{ content: string; mimeType?: string }> {
+    const response = await this.sendRequest("source", {
+      source,
+      sourceReference: source.sourceReference || 0,
+    });
+    return response.body as { content: string; mimeType?: string };
+  }
+
+  async exceptionInfo(threadId?: number): Promise<ExceptionInfo> {
+    const tid = threadId || this.currentThreadId;
+    if (!tid) {
+      throw new Error("No thread ID available. Is the debugger stopped?");
+    }
+    const response = await this.sendRequest("exceptionInfo", { threadId: tid });
+    return response.body as ExceptionInfo;
+  }
+
   async continue(threadId?: number): Promise<void> {
     const tid = threadId || this.currentThreadId;
     if (!tid) {
@@ -363,28 +645,49 @@ export class DAPClient extends EventEmitter {
     return (response.body as { scopes: Scope[] }).scopes;
   }
 
-  async getVariables(variablesReference: number): Promise<Variable[]> {
-    const response = await this.sendRequest("variables", { variablesReference });
+  async getVariables(
+    variablesReference: number,
+    paging: VariablesPaging = {}
+  ): Promise<Variable[]> {
+    const response = await this.sendRequest("variables", { variablesReference, ...paging });
     return (response.body as { variables: Variable[] }).variables;
   }
 
+  async setVariable(
+    variablesReference: number,
+    name: string,
+    value: string
+  ): Promise<{ value: string; type?: string; variablesReference?: number }> {
+    const response = await this.sendRequest("setVariable", { variablesReference, name, value });
+    return response.body as { value: string; type?: string; variablesReference?: number };
+  }
+
+  async setExpression(
+    expression: string,
+    value: string,
+    frameId?: number
+  ): Promise<{ value: string; type?: string; variablesReference?: number }> {
+    const response = await this.sendRequest("setExpression", { expression, value, frameId });
+    return response.body as { value: string; type?: string; variablesReference?: number };
+  }
+
   async evaluate(
     expression: string,
     frameId?: number,
-    context: "watch" | "repl" | "hover" = "repl"
-  ): Promise<{ result: string; type?: string; variablesReference: number }> {
-    const response = await this.sendRequest("evaluate", {
-      expression,
-      frameId,
-      context,
-    });
-
-    const body = response.body as {
-      result: string;
-      type?: string;
-      variablesReference: number;
-    };
-    return body;
+    context: "watch" | "repl" | "hover" = "repl",
+    options: RequestOptions = {}
+  ): Promise<EvaluateResult> {
+    const response = await this.sendRequest(
+      "evaluate",
+      {
+        expression,
+        frameId,
+        context,
+      },
+      options
+    );
+
+    return response.body as EvaluateResult;
   }
 
   async pause(threadId?: number): Promise<void> {
@@ -415,19 +718,21 @@ export class DAPClient extends EventEmitter {
   }
 
   private cleanup(): void {
-    if (this.process) {
-      this.process.kill();
-      this.process = null;
+    if (this.transport) {
+      this.transport.close();
+      this.transport = null;
     }
     for (const [, pending] of this.pendingRequests) {
+      clearTimeout(pending.timer);
       pending.reject(new Error("DAP client closed"));
     }
     this.pendingRequests.clear();
+    this.framer.reset();
     this.currentThreadId = null;
   }
 
   isRunning(): boolean {
-    return this.process !== null;
+    return this.transport !== null;
   }
 
   getCurrentThreadId(): number | null {
@@ -437,4 +742,15 @@ export class DAPClient extends EventEmitter {
   getCapabilities(): Capabilities {
     return this.capabilities;
   }
+
+  /**
+   * Log all traffic through the given recorder (shared across reconnects).
+   */
+  setRecorder(recorder: DAPRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  getHealth(): AdapterHealth {
+    return { ...this.health };
+  }
 }
@@ -0,0 +1,88 @@
+/**
+ * DAPRecorder - Keeps a log of DAP traffic for a session.
+ *
+ * Every request sent and every response/event received is kept in a small
+ * in-memory ring for the dap_log tool. When recording is enabled, entries
+ * are also appended to a JSONL file that the replay transport can serve in
+ * place of netcoredbg.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { DAPMessage } from "./dap-client.js";
+
+// One line of a recording
+export interface DAPTrafficEntry {
+  time: string; // ISO timestamp
+  direction: "out" | "in"; // out = client -> adapter, in = adapter -> client
+  message: DAPMessage;
+}
+
+const MAX_RECENT_ENTRIES = 200;
+
+export class DAPRecorder {
+  private recent: DAPTrafficEntry[] = [];
+  private filePath: string | null = null;
+
+  /**
+   * Start appending traffic to a JSONL file.
+   * Defaults to a per-session file in the system temp directory.
+   */
+  startRecording(sessionId: string, filePath?: string): string {
+    const target =
+      filePath ||
+      path.join(
+        os.tmpdir(),
+        "mcp-netcoredbg",
+        `${sessionId}-${new Date().toISOString().replace(/[:.]/g, "-")}.dap.jsonl`
+      );
+
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, "");
+    this.filePath = target;
+    return target;
+  }
+
+  stopRecording(): void {
+    this.filePath = null;
+  }
+
+  getRecordingPath(): string | null {
+    return this.filePath;
+  }
+
+  record(direction: DAPTrafficEntry["direction"], message: DAPMessage): void {
+    const entry: DAPTrafficEntry = { time: new Date().toISOString(), direction, message };
+
+    this.recent.push(entry);
+    while (this.recent.length > MAX_RECENT_ENTRIES) {
+      this.recent.shift();
+    }
+
+    if (this.filePath) {
+      try {
+        // Synchronous so entries stay in order and survive a crash
+        fs.appendFileSync(this.filePath, JSON.stringify(entry) + "\n");
+      } catch {
+        // Stop recording rather than failing DAP traffic
+        this.filePath = null;
+      }
+    }
+  }
+
+  getRecent(count: number = 30): DAPTrafficEntry[] {
+    return this.recent.slice(-count);
+  }
+}
+
+/**
+ * Read a recording written by DAPRecorder.
+ */
+export function readRecording(filePath: string): DAPTrafficEntry[] {
+  const content = fs.readFileSync(filePath, "utf-8");
+  return content
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => JSON.parse(line) as DAPTrafficEntry);
+}
@@ -0,0 +1,283 @@
+/**
+ * DAP transports - how the client talks to the debug adapter.
+ *
+ * - stdio: spawn netcoredbg locally and talk over its stdin/stdout
+ * - tcp:   connect to an already-running `netcoredbg --server=<port>`
+ * - pipe:  launch the adapter through another program, e.g.
+ *          `ssh buildbox netcoredbg` or `docker exec -i api netcoredbg`
+ * - replay: serve a DAP recording in place of netcoredbg
+ *
+ * Every transport emits the same events:
+ * - "data"   (Buffer)  raw bytes from the adapter
+ * - "stderr" (string)  diagnostic output from the adapter process
+ * - "close"  (code)    the connection or process ended
+ * - "error"  (Error)
+ */
+
+import { spawn, ChildProcess } from "child_process";
+import { EventEmitter } from "events";
+import * as net from "net";
+import { DAPMessage, DAPRequest, DAPResponse } from "./dap-client.js";
+import { DAPTrafficEntry, readRecording } from "./dap-recorder.js";
+
+export type TransportConfig =
+  | { type: "stdio"; debuggerPath?: string }
+  | { type: "tcp"; host?: string; port: number }
+  | { type: "pipe"; pipeProgram: string; pipeArgs?: string[]; debuggerPath?: string }
+  | { type: "replay"; file: string };
+
+export interface DAPTransport extends EventEmitter {
+  open(): Promise<void>;
+  write(data: string): void;
+  close(): void;
+  isOpen(): boolean;
+  describe(): string;
+}
+
+const DEFAULT_DEBUGGER_PATH = "netcoredbg";
+const ADAPTER_ARGS = ["--interpreter=vscode"];
+const TCP_CONNECT_TIMEOUT_MS = 10000;
+
+/**
+ * Runs the adapter as a child process (directly or through a pipe program)
+ * and speaks DAP over its stdin/stdout.
+ */
+class ProcessTransport extends EventEmitter implements DAPTransport {
+  private process: ChildProcess | null = null;
+
+  constructor(
+    private command: string,
+    private args: string[]
+  ) {
+    super();
+  }
+
+  async open(): Promise<void> {
+    this.process = spawn(this.command, this.args, {
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    this.process.stdout!.on("data", (data: Buffer) => {
+      this.emit("data", data);
+    });
+
+    // Decode stderr as a stream so multi-byte characters split across chunks survive
+    this.process.stderr!.setEncoding("utf8");
+    this.process.stderr!.on("data", (data: string) => {
+      this.emit("stderr", data);
+    });
+
+    this.process.on("close", (code) => {
+      this.process = null;
+      this.emit("close", code);
+    });
+
+    this.process.on("error", (err) => {
+      this.emit("error", err);
+    });
+  }
+
+  write(data: string): void {
+    if (!this.process?.stdin) {
+      throw new Error("DAP transport not open");
+    }
+    this.process.stdin.write(data);
+  }
+
+  close(): void {
+    if (this.process) {
+      this.process.kill();
+      this.process = null;
+    }
+  }
+
+  isOpen(): boolean {
+    return this.process !== null;
+  }
+
+  describe(): string {
+    return [this.command, ...this.args].join(" ");
+  }
+}
+
+/**
+ * Connects to an adapter listening on a TCP port (`netcoredbg --server`).
+ */
+class TcpTransport extends EventEmitter implements DAPTransport {
+  private socket: net.Socket | null = null;
+
+  constructor(
+    private host: string,
+    private port: number
+  ) {
+    super();
+  }
+
+  async open(): Promise<void> {
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const s = net.connect({ host: this.host, port: this.port });
+      s.setTimeout(TCP_CONNECT_TIMEOUT_MS, () => {
+        s.destroy();
+        reject(new Error(`Timed out connecting to debug adapter at ${this.describe()}`));
+      });
+      s.once("connect", () => {
+        s.setTimeout(0);
+        resolve(s);
+      });
+      s.once("error", (err) =>
+        reject(new Error(`Failed to connect to debug adapter at ${this.describe()}: ${err.message}`))
+      );
+    });
+
+    this.socket = socket;
+
+    socket.on("data", (data: Buffer) => {
+      this.emit("data", data);
+    });
+
+    socket.on("close", () => {
+      this.socket = null;
+      this.emit("close", null);
+    });
+
+    socket.on("error", (err) => {
+      this.emit("error", err);
+    });
+  }
+
+  write(data: string): void {
+    if (!this.socket) {
+      throw new Error("DAP transport not open");
+    }
+    this.socket.write(data);
+  }
+
+  close(): void {
+    if (this.socket) {
+      this.socket.destroy();
+      this.socket = null;
+    }
+  }
+
+  isOpen(): boolean {
+    return this.socket !== null;
+  }
+
+  describe(): string {
+    return `tcp://${this.host}:${this.port}`;
+  }
+}
+
+/**
+ * Stands in for netcoredbg by serving a recording made by DAPRecorder.
+ *
+ * Each request is matched to the next recorded request with the same
+ * command; the responses and events recorded after it (up to the next
+ * recorded request) are then played back, with response sequence numbers
+ * rewritten to match the live requests.
+ */
+class ReplayTransport extends EventEmitter implements DAPTransport {
+  private entries: DAPTrafficEntry[] = [];
+  private cursor = 0;
+  private seqMap = new Map<number, number>(); // recorded request seq -> live seq
+  private opened = false;
+  private nextSeq = 1;
+
+  constructor(private file: string) {
+    super();
+  }
+
+  async open(): Promise<void> {
+    this.entries = readRecording(this.file);
+    this.cursor = 0;
+    this.opened = true;
+  }
+
+  write(data: string): void {
+    if (!this.opened) {
+      throw new Error("DAP transport not open");
+    }
+
+    const body = data.substring(data.indexOf("\r\n\r\n") + 4);
+    const request = JSON.parse(body) as DAPRequest;
+
+    const index = this.entries.findIndex(
+      (e, i) =>
+        i >= this.cursor &&
+        e.direction === "out" &&
+        (e.message as DAPRequest).command === request.command
+    );
+
+    if (index === -1) {
+      this.send({
+        seq: this.nextSeq++,
+        type: "response",
+        request_seq: request.seq,
+        success: false,
+        command: request.command,
+        message: `Replay: no recorded '${request.command}' request left in ${this.file}`,
+      } as DAPResponse);
+      return;
+    }
+
+    this.seqMap.set(this.entries[index].message.seq, request.seq);
+    this.cursor = index + 1;
+
+    // Play back everything the adapter sent until the next recorded request
+    while (this.cursor < this.entries.length && this.entries[this.cursor].direction === "in") {
+      const message = { ...this.entries[this.cursor].message } as DAPMessage;
+      if (message.type === "response") {
+        const response = message as DAPResponse;
+        response.request_seq = this.seqMap.get(response.request_seq) ?? response.request_seq;
+      }
+      this.send(message);
+      this.cursor++;
+    }
+  }
+
+  close(): void {
+    if (this.opened) {
+      this.opened = false;
+      setImmediate(() => this.emit("close", 0));
+    }
+  }
+
+  isOpen(): boolean {
+    return this.opened;
+  }
+
+  describe(): string {
+    return `replay:${this.file}`;
+  }
+
+  private send(message: DAPMessage): void {
+    const json = JSON.stringify(message);
+    const framed = Buffer.from(`Content-Length: ${Buffer.byteLength(json)}\r\n\r\n${json}`);
+    // Deliver asynchronously, like a real adapter
+    setImmediate(() => {
+      if (this.opened) {
+        this.emit("data", framed);
+      }
+    });
+  }
+}
+
+/**
+ * Create a transport for the given configuration.
+ */
+export function createTransport(config: TransportConfig): DAPTransport {
+  switch (config.type) {
+    case "stdio":
+      return new ProcessTransport(config.debuggerPath || DEFAULT_DEBUGGER_PATH, ADAPTER_ARGS);
+    case "tcp":
+      return new TcpTransport(config.host || "127.0.0.1", config.port);
+    case "pipe":
+      return new ProcessTransport(config.pipeProgram, [
+        ...(config.pipeArgs || []),
+        config.debuggerPath || DEFAULT_DEBUGGER_PATH,
+        ...ADAPTER_ARGS,
+      ]);
+    case "replay":
+      return new ReplayTransport(config.file);
+  }
+}
@@ -12,6 +12,10 @@
  * - session.ts        - DebugSession class (per-session state)
  * - session-manager.ts - SessionManager (multi-session coordination)
  * - dap-client.ts     - DAP protocol client
+ * - dap-transport.ts  - Adapter transports (stdio, TCP, pipe, replay)
+ * - dap-recorder.ts   - DAP traffic log and recordings
+ * - capabilities.ts   - Adapter capability checks and tool mapping
+ * - inspector.ts      - Recursive object inspection (inspect tool)
  * - harness.ts        - Method invocation harness
  * - utils.ts          - Utility functions
  * - tools/            - Tool definitions organized by category
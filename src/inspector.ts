@@ -0,0 +1,264 @@
+/**
+ * Recursive object inspection for the inspect tool.
+ *
+ * Expands a variable container breadth-first up to a depth and node budget,
+ * so one call shows a whole object graph without flooding the context.
+ * Repeated objects (including cycles) are reported instead of being
+ * expanded again. netcoredbg hands out a new variables reference on every
+ * expansion, so with trackIdentity they are recognised by runtime identity
+ * (hash code, confirmed by reference equality); without it only maxDepth
+ * stops a cycle.
+ */
+
+import { Variable } from "./dap-client.js";
+import { DebugSession } from "./session.js";
+
+export interface InspectOptions {
+  maxDepth: number;
+  maxNodes: number;
+  maxChildren: number; // Children fetched per container
+  skipStatic: boolean;
+  skipCompilerGenerated: boolean;
+  trackIdentity: boolean; // Detect repeated objects by runtime identity (extra evaluations)
+  frameId?: number;
+}
+
+export interface InspectNode {
+  name: string;
+  path: string;
+  value: string;
+  type?: string;
+  children?: InspectNode[];
+  hiddenChildren?: number; // Children not fetched because of maxChildren
+  truncated?: "depth" | "budget";
+  repeatOf?: string; // Path of the node this one refers to again
+}
+
+/**
+ * Build an inspection tree from an expression or a variables reference.
+ */
+export async function inspect(
+  session: DebugSession,
+  target: { expression?: string; variablesReference?: number },
+  options: InspectOptions
+): Promise<InspectNode> {
+  let root: InspectNode;
+  let rootRef: number;
+  let rootEvaluateName: string | undefined;
+
+  if (target.expression) {
+    const result = await session.evaluate(target.expression, options.frameId);
+    root = { name: target.expression, path: target.expression, value: result.result, type: result.type };
+    rootRef = result.variablesReference;
+    rootEvaluateName = target.expression;
+  } else if (target.variablesReference !== undefined) {
+    const name = `ref ${target.variablesReference}`;
+    root = { name, path: name, value: "" };
+    rootRef = target.variablesReference;
+  } else {
+    throw new Error("Provide either expression or variablesReference");
+  }
+
+  const seenRefs = new Map<number, string>(); // variablesReference -> path
+  const seenIdentities = new Map<string, Array<{ path: string; evaluateName: string }>>(); // type#hash -> objects
+  const queue: Array<{ node: InspectNode; ref: number; depth: number }> = [];
+  let nodeCount = 1;
+
+  const enqueue = async (node: InspectNode, ref: number, depth: number, evaluateName?: string) => {
+    if (ref <= 0) return;
+
+    const repeat = seenRefs.get(ref);
+    if (repeat !== undefined) {
+      node.repeatOf = repeat;
+      return;
+    }
+    seenRefs.set(ref, node.path);
+
+    if (options.trackIdentity && evaluateName) {
+      const identity = await objectIdentity(session, evaluateName, node.type, options.frameId);
+      if (identity) {
+        const candidates = seenIdentities.get(identity) || [];
+        // Identity hash codes can collide, so confirm before calling it a repeat
+        for (const previous of candidates) {
+          if (await isSameObject(session, previous.evaluateName, evaluateName, options.frameId)) {
+            node.repeatOf = previous.path;
+            return;
+          }
+        }
+        candidates.push({ path: node.path, evaluateName });
+        seenIdentities.set(identity, candidates);
+      }
+    }
+
+    if (depth >= options.maxDepth) {
+      node.truncated = "depth";
+      return;
+    }
+    queue.push({ node, ref, depth });
+  };
+
+  await enqueue(root, rootRef, 0, rootEvaluateName);
+
+  while (queue.length > 0) {
+    const { node, ref, depth } = queue.shift()!;
+
+    if (nodeCount >= options.maxNodes) {
+      node.truncated = "budget";
+      continue;
+    }
+
+    const page = await session.getVariablesPage(ref, 0, options.maxChildren);
+    const children = page.variables.filter((v) => !isSkipped(v, options));
+    if (page.end < page.total) {
+      node.hiddenChildren = page.total - page.end;
+    }
+
+    node.children = [];
+    for (const v of children) {
+      if (nodeCount >= options.maxNodes) {
+        node.truncated = "budget";
+        break;
+      }
+      nodeCount++;
+
+      const child: InspectNode = {
+        name: v.name,
+        path: childPath(node.path, v.name),
+        value: v.value,
+        type: v.type,
+      };
+      node.children.push(child);
+      await enqueue(child, v.variablesReference, depth + 1, v.evaluateName);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Render an inspection tree as indented text.
+ */
+export function renderTree(node: InspectNode, indent = 0): string {
+  const prefix = "  ".repeat(indent);
+  const type = node.type ? ` (${node.type})` : "";
+  const value = node.value ? ` = ${node.value}` : "";
+  let text = `${prefix}${node.name}${type}${value}`;
+
+  if (node.repeatOf !== undefined) {
+    text += ` [same object as ${node.repeatOf}]`;
+  } else if (node.truncated === "depth") {
+    text += " [...]";
+  }
+
+  for (const child of node.children || []) {
+    text += `\n${renderTree(child, indent + 1)}`;
+  }
+  if (node.hiddenChildren) {
+    text += `\n${prefix}  ... ${node.hiddenChildren} more`;
+  }
+  if (node.truncated === "budget") {
+    text += `\n${prefix}  ... (node budget reached)`;
+  }
+  return text;
+}
+
+/**
+ * Render an inspection tree as a JSON-friendly value: leaves become their
+ * display string, expanded nodes become objects keyed by member name.
+ */
+export function toJson(node: InspectNode): unknown {
+  if (node.repeatOf !== undefined) {
+    return { $ref: node.repeatOf };
+  }
+  if (!node.children) {
+    return node.truncated ? `${node.value} [...]` : node.value;
+  }
+
+  const result: Record<string, unknown> = {};
+  if (node.type) {
+    result.$type = node.type;
+  }
+  for (const child of node.children) {
+    result[child.name] = toJson(child);
+  }
+  if (node.hiddenChildren) {
+    result.$more = node.hiddenChildren;
+  }
+  if (node.truncated === "budget") {
+    result.$truncated = true;
+  }
+  return result;
+}
+
+/**
+ * Flatten an inspection tree into a depth-first list of nodes, for
+ * structured results.
+ */
+export function flattenTree(
+  node: InspectNode,
+  depth = 0
+): Array<Omit<InspectNode, "children"> & { depth: number }> {
+  const { children, ...rest } = node;
+  return [{ ...rest, depth }, ...(children || []).flatMap((c) => flattenTree(c, depth + 1))];
+}
+
+function isSkipped(v: Variable, options: InspectOptions): boolean {
+  if (options.skipStatic) {
+    if (v.name === "Static members" || v.presentationHint?.attributes?.includes("static")) {
+      return true;
+    }
+  }
+  if (options.skipCompilerGenerated) {
+    // e.g. <Name>k__BackingField, <>c__DisplayClass0_0, CS$<>8__locals1
+    if (/[<>$]/.test(v.name)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Path of a member below its parent: "order.Items" or "order.Items[2]".
+ */
+export function childPath(parent: string, name: string): string {
+  return name.startsWith("[") ? `${parent}${name}` : `${parent}.${name}`;
+}
+
+/**
+ * Runtime identity hash of an object, so the same instance reached through
+ * different paths is reported once. Distinct objects may share a hash.
+ * Returns null for values without one.
+ */
+async function objectIdentity(
+  session: DebugSession,
+  evaluateName: string,
+  type: string | undefined,
+  frameId?: number
+): Promise<string | null> {
+  try {
+    const result = await session.evaluate(
+      `System.Runtime.CompilerServices.RuntimeHelpers.GetHashCode(${evaluateName})`,
+      frameId
+    );
+    return `${type || ""}#${result.result}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether two expressions refer to the same object instance.
+ */
+async function isSameObject(
+  session: DebugSession,
+  a: string,
+  b: string,
+  frameId?: number
+): Promise<boolean> {
+  try {
+    const result = await session.evaluate(`object.ReferenceEquals(${a}, ${b})`, frameId);
+    return result.result === "true";
+  } catch {
+    return false;
+  }
+}
@@ -5,9 +5,10 @@
  * - Creation and tracking of multiple concurrent debug sessions
  * - Default session handling for backward compatibility
  * - Auto-detection of session IDs from project paths
+ * - History of recently finished sessions for post-mortem queries
  */
 
-import { DebugSession, SessionConfig, SessionStatus } from "./session.js";
+import { DebugSession, SessionConfig, SessionStatus, ExitInfo } from "./session.js";
 import * as path from "path";
 
 export type SessionId = string;
@@ -21,6 +22,17 @@ export interface SessionInfo {
   status: SessionStatus;
 }
 
+// A session that has been removed, kept for post-mortem queries
+export interface FinishedSessionInfo {
+  id: SessionId;
+  mode: SessionConfig["mode"];
+  program: string;
+  finishedAt: Date;
+  exit: ExitInfo;
+}
+
+const DEFAULT_FINISHED_HISTORY_LIMIT = 10;
+
 /**
  * Manages multiple debug sessions and routes tool calls to the appropriate session.
  */
@@ -28,14 +40,31 @@ export class SessionManager {
   private sessions = new Map<SessionId, DebugSession>();
   private defaultSessionId: SessionId | null = null;
   private sessionCounter = 0;
+  private finishedSessions: FinishedSessionInfo[] = [];
+  private finishedHistoryLimit = DEFAULT_FINISHED_HISTORY_LIMIT;
 
   /**
    * Create a new session with the given ID (or auto-generate one).
-   * If a session with the same ID already exists, throws an error.
+   * If a session with the same ID already exists, throws an error, unless
+   * its debuggee has exited: then it is terminated and archived first.
    */
-  createSession(id?: SessionId): DebugSession {
+  async createSession(id?: SessionId): Promise<DebugSession> {
     const sessionId = id || this.generateSessionId();
 
+    // A session whose debuggee has exited doesn't block reusing its ID
+    const existing = this.sessions.get(sessionId);
+    if (
+      existing &&
+      existing.getConfig() &&
+      !existing.isWatchMode() &&
+      existing.getStatus().state === "terminated"
+    ) {
+      // Its adapter is still running until the session is terminated
+      this.archiveSession(existing);
+      await existing.terminate();
+      this.sessions.delete(sessionId);
+    }
+
     if (this.sessions.has(sessionId)) {
       throw new Error(
         `Session '${sessionId}' already exists. Use a different name or terminate it first.`
@@ -123,6 +152,7 @@ export class SessionManager {
   async removeSession(id: SessionId): Promise<void> {
     const session = this.sessions.get(id);
     if (session) {
+      this.archiveSession(session);
       await session.terminate();
       this.sessions.delete(id);
 
@@ -169,12 +199,48 @@ export class SessionManager {
    */
   async terminateAll(): Promise<void> {
     for (const session of this.sessions.values()) {
+      this.archiveSession(session);
       await session.terminate();
     }
     this.sessions.clear();
     this.defaultSessionId = null;
   }
 
+  /**
+   * List recently finished sessions, most recent first.
+   */
+  listFinishedSessions(): FinishedSessionInfo[] {
+    return [...this.finishedSessions].reverse();
+  }
+
+  /**
+   * Find the most recent finished session with the given ID.
+   */
+  getFinishedSession(id: SessionId): FinishedSessionInfo | null {
+    return this.listFinishedSessions().find((s) => s.id === id) || null;
+  }
+
+  /**
+   * Forget all finished sessions. Returns how many were cleared.
+   */
+  clearFinishedSessions(): number {
+    const count = this.finishedSessions.length;
+    this.finishedSessions = [];
+    return count;
+  }
+
+  /**
+   * Set how many finished sessions to keep.
+   */
+  setFinishedHistoryLimit(limit: number): void {
+    this.finishedHistoryLimit = Math.max(0, limit);
+    this.trimFinishedSessions();
+  }
+
+  getFinishedHistoryLimit(): number {
+    return this.finishedHistoryLimit;
+  }
+
   /**
    * Derive a session ID from a project path.
    * Extracts meaningful suffix like 'api', 'worker', 'web' from project names.
@@ -232,6 +298,30 @@ export class SessionManager {
     return this.deriveSessionIdFromPath(filename);
   }
 
+  /**
+   * Snapshot a session's post-mortem data into the finished history.
+   * Must run before the session is terminated, which clears its state.
+   */
+  private archiveSession(session: DebugSession): void {
+    const config = session.getConfig();
+    if (!config) return; // Never started
+
+    this.finishedSessions.push({
+      id: session.id,
+      mode: config.mode,
+      program: config.program,
+      finishedAt: new Date(),
+      exit: session.capturePostMortem(),
+    });
+    this.trimFinishedSessions();
+  }
+
+  private trimFinishedSessions(): void {
+    while (this.finishedSessions.length > this.finishedHistoryLimit) {
+      this.finishedSessions.shift();
+    }
+  }
+
   /**
    * Generate a unique session ID (session-1, session-2, etc.)
    */
@@ -3,8 +3,9 @@
  *
  * This class holds all the per-session state that was previously global:
  * - DAPClient instance
- * - Breakpoints by file
+ * - Breakpoints by file and by function name
  * - Output buffer
+ * - Loaded modules and sources
  * - Execution state (stopped reason, thread ID)
  * - Watch mode state (for hot reload)
  * - Session configuration
@@ -13,13 +14,31 @@
 import {
   DAPClient,
   Breakpoint,
+  FunctionBreakpoint,
+  SourceBreakpoint,
   StackFrame,
   Variable,
   Scope,
   Thread,
   StoppedEventBody,
   OutputEventBody,
+  ExitedEventBody,
+  ExceptionInfo,
+  ExceptionOptions,
+  AdapterHealth,
+  Capabilities,
+  Module,
+  Source,
+  ModuleEventBody,
+  LoadedSourceEventBody,
+  BreakpointEventBody,
+  VariablesPaging,
+  EvaluateResult,
 } from "./dap-client.js";
+import { TransportConfig } from "./dap-transport.js";
+import { requireCapability } from "./capabilities.js";
+import { childPath } from "./inspector.js";
+import { DAPRecorder, DAPTrafficEntry } from "./dap-recorder.js";
 import { ChildProcess, spawn, execSync } from "child_process";
 import * as path from "path";
 import * as fs from "fs";
@@ -36,6 +55,7 @@ export interface SessionConfig {
   processId?: number;
   startTime: Date;
   mode: "launch" | "attach" | "watch";
+  transport?: TransportConfig; // How to reach the adapter (defaults to local stdio)
 }
 
 // Hot reload (watch mode) state
@@ -60,6 +80,219 @@ export interface SessionStatus {
   uptime: number; // seconds
   breakpointCount: number;
   outputLineCount: number;
+  adapterHealth?: AdapterHealth;
+  exit?: ExitInfo;
+}
+
+// One page of a variable container's children
+export interface VariablesPage {
+  variables: Variable[];
+  start: number; // Index of the first paged child
+  end: number; // Index after the last paged child
+  total: number; // Total children of the paged kind
+  paged: "indexed" | "all"; // Whether indexed children were paged by the adapter
+}
+
+// Where and why execution last stopped
+export interface StopLocation {
+  reason: string;
+  threadId?: number;
+  frame?: StackFrame;
+  time: Date;
+}
+
+// Post-mortem data kept once the debuggee has exited
+export interface ExitInfo {
+  exitCode?: number;
+  exitTime: Date;
+  lastStop?: StopLocation;
+  outputTail: string[];
+  unhandledException?: string;
+}
+
+// Exception breakpoint settings (re-applied on reconnect)
+export interface ExceptionBreakpointSettings {
+  filters: string[]; // e.g. "all", "user-unhandled"
+  exceptionTypes: string[]; // Fully qualified exception type names
+}
+
+// Options for a source breakpoint beyond its location
+export interface BreakpointOptions {
+  condition?: string;
+  hitCondition?: string; // e.g. ">= 10", "% 5"
+  logMessage?: string; // Logpoint template, {expression} is interpolated
+}
+
+// A change in a breakpoint's verified state or bound location
+export interface BreakpointStateChange {
+  time: Date;
+  verified: boolean;
+  line?: number;
+  message?: string;
+  source: "set" | "event"; // From a set request or an adapter breakpoint event
+}
+
+// Text of a breakpoint's line and its neighbours (trimmed), used to find
+// the line again after the file is edited
+export interface BreakpointAnchor {
+  text: string;
+  before: string[];
+  after: string[];
+}
+
+// When and on which thread a breakpoint was last hit
+export interface BreakpointHit {
+  time: Date;
+  threadId?: number;
+}
+
+// Server-side identity and hit statistics of a breakpoint; the ID stays
+// the same across adapter connections, unlike the adapter's own IDs
+export interface BreakpointStats {
+  id: number;
+  hitCount: number;
+  lastHit?: BreakpointHit;
+}
+
+// A source breakpoint as requested, plus the adapter's latest view of it
+export interface SourceBreakpointEntry extends BreakpointStats {
+  file: string;
+  spec: SourceBreakpoint;
+  breakpoint: Breakpoint;
+  history: BreakpointStateChange[];
+  enabled: boolean;
+}
+
+// A function breakpoint as requested, plus the adapter's latest view of it
+export interface FunctionBreakpointEntry extends BreakpointStats {
+  spec: FunctionBreakpoint;
+  breakpoint: Breakpoint;
+  history: BreakpointStateChange[];
+  enabled: boolean; // Disabled breakpoints are kept but not sent to the adapter
+}
+
+// A source breakpoint as the session keeps it; the per-file DAP payload is
+// built from these entries
+interface StoredBreakpoint extends SourceBreakpointEntry {
+  anchor?: BreakpointAnchor; // Line content, for relocation in watch mode
+  unplaced?: string; // Why its line couldn't be found after a reload (not sent)
+}
+
+// Source and function breakpoints, e.g. those re-sent on restart
+export interface BreakpointList {
+  breakpoints: SourceBreakpointEntry[];
+  functionBreakpoints: FunctionBreakpointEntry[];
+}
+
+// One line of source, annotated for display
+export interface SourceLine {
+  line: number;
+  text: string;
+  current: boolean; // The line the frame or location points at
+  breakpoint?: "verified" | "pending";
+}
+
+// Source lines around a frame or location
+export interface SourceContext {
+  path?: string;
+  sourceReference?: number; // Set when the content came from the adapter
+  line: number;
+  lines: SourceLine[];
+}
+
+// Where execution landed after a blocking continue/step
+export interface StopInfo {
+  event: "stopped" | "exited" | "terminated" | "timeout";
+  reason?: string;
+  description?: string;
+  threadId?: number;
+  hitBreakpointIds?: number[];
+  exitCode?: number;
+  frame?: StackFrame;
+  locals?: Variable[];
+  totalLocals?: number;
+}
+
+// Target of a run_to: a source line or a function
+export type RunToTarget = { file: string; line: number } | { functionName: string };
+
+// Outcome of a run_to
+export interface RunToResult {
+  stop: StopInfo;
+  reached: boolean; // Stopped at the target rather than somewhere else first
+  breakpoint: Breakpoint; // The breakpoint used, as bound by the adapter
+  temporary: boolean; // False when an existing user breakpoint was already there
+}
+
+// A watch expression's value at one stop
+export interface WatchValue {
+  value?: string;
+  type?: string;
+  error?: string; // Evaluation failed (e.g. not in scope in the top frame)
+  time: Date;
+}
+
+// A watch expression with its values at the last two stops
+export interface WatchExpression {
+  id: number;
+  expression: string;
+  current?: WatchValue;
+  previous?: WatchValue;
+}
+
+// Locals and arguments of a frame, flattened to values by path (e.g. "order.Items[2].Price")
+export interface LocalsSnapshot {
+  name: string;
+  time: Date;
+  frame: StackFrame;
+  depth: number; // How many levels below each local were expanded
+  values: Map<string, { value: string; type?: string }>;
+  truncated: boolean; // Some containers weren't fully captured (size limits)
+}
+
+// Differences between two snapshots, by path
+export interface SnapshotDiff {
+  from: LocalsSnapshot;
+  to: LocalsSnapshot;
+  added: Array<{ path: string; value: string }>;
+  removed: Array<{ path: string; value: string }>;
+  changed: Array<{ path: string; from: string; to: string }>;
+}
+
+// Options for trace: how to step and when to stop
+export interface TraceOptions {
+  mode: "over" | "into";
+  maxSteps: number;
+  untilLine?: number;
+  untilFile?: string; // File for untilLine, defaults to the starting frame's file
+  untilFrameExit?: boolean; // Stop once the starting frame has returned
+  untilCondition?: string; // Stop once this expression evaluates to true
+  stepTimeoutMs?: number;
+  threadId?: number;
+}
+
+// A local variable that changed between trace steps
+export interface LocalChange {
+  name: string;
+  from?: string; // Absent when the local is new (e.g. after entering a method)
+  to: string;
+}
+
+// One step of a trace
+export interface TraceStep {
+  frame: StackFrame;
+  depth: number; // Stack depth, to show calls and returns
+  changes: LocalChange[];
+}
+
+// Execution transcript produced by trace
+export interface TraceResult {
+  start: StackFrame;
+  startDepth: number;
+  steps: TraceStep[];
+  endReason: "maxSteps" | "line" | "frameExit" | "condition" | "stopped" | "exited" | "terminated" | "timeout";
+  stopReason?: string; // Why execution stopped when endReason is "stopped" (breakpoint, exception, ...)
+  exitCode?: number;
 }
 
 // Launch profile interfaces
@@ -74,6 +307,20 @@ interface LaunchSettings {
   profiles?: Record<string, LaunchProfile>;
 }
 
+// Lines on each side of a breakpoint kept in its anchor
+const ANCHOR_CONTEXT_LINES = 2;
+
+// Stored state of a breakpoint the user disabled (the adapter no longer has it)
+const DISABLED_BREAKPOINT: Breakpoint = { verified: false, message: "Disabled" };
+
+// dotnet watch output after edits were applied to the running process, or a rebuild finished
+const HOT_RELOAD_DONE_PATTERN = /Hot reload (of changes )?succeeded|Hot reload changes applied/i;
+const BUILD_DONE_PATTERN = /Build succeeded/i;
+
+// Limits for locals snapshots, so large collections don't flood the store
+const SNAPSHOT_MAX_CHILDREN = 100;
+const SNAPSHOT_MAX_VALUES = 2000;
+
 /**
  * A single debug session encapsulating all per-session state.
  */
@@ -84,13 +331,44 @@ export class DebugSession {
   private dapClient: DAPClient | null = null;
 
   // Session-specific state
-  // We store breakpoints and their conditions separately because the DAP
-  // Breakpoint response doesn't include the original condition we set
-  private breakpointsByFile = new Map<string, Map<number, Breakpoint>>();
-  private conditionsByFile = new Map<string, Map<number, string | undefined>>();
+  // Source breakpoints by server-side ID. We keep the requested spec with the
+  // adapter's result because the DAP Breakpoint response doesn't include the
+  // condition, hit condition or log message we set
+  private sourceBreakpoints = new Map<number, StoredBreakpoint>();
+  private functionBreakpoints = new Map<string, FunctionBreakpointEntry>();
+  // One-shot breakpoint used by runTo; sent alongside the user's breakpoints but never stored with them
+  private runToBreakpoint: RunToTarget | null = null;
+  private nextBreakpointId = 1;
   private outputBuffer: string[] = [];
   private lastStoppedReason: string | null = null;
   private lastStoppedThreadId: number | null = null;
+  private exceptionBreakpoints: ExceptionBreakpointSettings | null = null;
+  private lastStop: StopLocation | null = null;
+  private lastException: string | null = null;
+  private exitCode: number | undefined = undefined;
+  private exitTime: Date | null = null;
+  // Variables fetched during the current stop; references are only valid until execution resumes
+  private variablesCache = new Map<string, Variable[]>();
+  // Child counts reported for each reference seen during the current stop
+  private referenceCounts = new Map<number, { named?: number; indexed?: number }>();
+  // Stack frames returned during the current stop, so tools can refer to them by ID
+  private framesById = new Map<number, StackFrame>();
+
+  // Watch expressions, evaluated in the top frame on every stop (kept across watch-mode reconnects)
+  private watchExpressions = new Map<number, WatchExpression>();
+  private nextWatchId = 1;
+  // Evaluation of the watches for the latest stop, awaited before reporting them
+  private watchRefresh: Promise<void> | null = null;
+
+  // Named locals snapshots, for diffing state between stops
+  private snapshots = new Map<string, LocalsSnapshot>();
+
+  // Loaded assemblies and sources, kept live from module/loadedSource events
+  private modules = new Map<number | string, Module>();
+  private loadedSources = new Map<string, Source>();
+
+  // DAP traffic log, shared by every client this session creates
+  private dapRecorder = new DAPRecorder();
 
   // Watch mode state (if applicable)
   private watchState: WatchState | null = null;
@@ -114,12 +392,18 @@ export class DebugSession {
     stopAtEntry?: boolean;
     env?: Record<string, string>;
     launchProfile?: string;
+    transport?: TransportConfig;
+    recordDap?: boolean;
   }): Promise<{ capabilities: Record<string, unknown>; resolvedEnv: Record<string, string> }> {
     // Clear any existing state
     await this.cleanup();
 
+    if (params.recordDap) {
+      this.dapRecorder.startRecording(this.id);
+    }
+
     // Start new client
-    this.dapClient = new DAPClient();
+    this.dapClient = new DAPClient(params.transport);
     this.setupEventHandlers();
 
     // Initialize
@@ -142,7 +426,8 @@ export class DebugSession {
     }
 
     await this.dapClient.sendRequest("launch", launchRequest);
-    await this.dapClient.sendRequest("configurationDone", {});
+    await this.applyBreakpoints(this.dapClient);
+    await this.dapClient.configurationDone();
 
     // Save session config
     this.config = {
@@ -155,6 +440,7 @@ export class DebugSession {
       resolvedEnv,
       startTime: new Date(),
       mode: "launch",
+      transport: params.transport,
     };
 
     return { capabilities, resolvedEnv };
@@ -163,15 +449,21 @@ export class DebugSession {
   /**
    * Attach to an existing process
    */
-  async attach(processId: number): Promise<void> {
+  async attach(processId: number, transport?: TransportConfig, recordDap?: boolean): Promise<void> {
     // Clear any existing state
     await this.cleanup();
 
-    this.dapClient = new DAPClient();
+    if (recordDap) {
+      this.dapRecorder.startRecording(this.id);
+    }
+
+    this.dapClient = new DAPClient(transport);
     this.setupEventHandlers();
 
     await this.dapClient.start();
     await this.dapClient.attach(processId);
+    await this.applyBreakpoints(this.dapClient);
+    await this.dapClient.configurationDone();
 
     // Save session config
     this.config = {
@@ -180,6 +472,7 @@ export class DebugSession {
       processId,
       startTime: new Date(),
       mode: "attach",
+      transport,
     };
   }
 
@@ -265,6 +558,12 @@ export class DebugSession {
       ) {
         this.handleEarlyCleanup();
       }
+
+      // Edits applied to the running process (or a rebuild it survived) may
+      // have shifted breakpoint lines too
+      if (HOT_RELOAD_DONE_PATTERN.test(text) || BUILD_DONE_PATTERN.test(text)) {
+        this.relocateAttachedBreakpoints();
+      }
     });
 
     watchProcess.stderr?.on("data", (data) => {
@@ -292,6 +591,8 @@ export class DebugSession {
 
     await this.dapClient.start();
     await this.dapClient.attach(childPid);
+    await this.applyBreakpoints(this.dapClient);
+    await this.dapClient.configurationDone();
 
     this.watchState.lastChildPid = childPid;
 
@@ -347,9 +648,11 @@ export class DebugSession {
   }
 
   /**
-   * Restart the session (for launch mode only)
+   * Restart the session (for launch mode only). Breakpoints are sent again
+   * before the program starts; returns them once they are all verified, the
+   * program stops or exits, or verifyTimeoutMs passes.
    */
-  async restart(rebuild: boolean = false): Promise<void> {
+  async restart(rebuild: boolean = false, verifyTimeoutMs: number = 5000): Promise<BreakpointList> {
     if (!this.config || this.config.mode !== "launch") {
       throw new Error("Restart is only supported for launch mode");
     }
@@ -371,7 +674,8 @@ export class DebugSession {
       }
     }
 
-    // Relaunch with same config
+    // Relaunch with same config, recording to a new file if this run was recorded
+    const recordDap = this.dapRecorder.getRecordingPath() !== null;
     await this.launch({
       program: this.config.program,
       args: this.config.args,
@@ -379,7 +683,20 @@ export class DebugSession {
       stopAtEntry: this.config.stopAtEntry,
       env: this.config.env,
       launchProfile: this.config.launchProfile,
+      transport: this.config.transport,
+      recordDap,
     });
+
+    // Pending breakpoints bind as their modules load, shortly after launch
+    const deadline = Date.now() + verifyTimeoutMs;
+    while (Date.now() < deadline && !this.lastStoppedReason && !this.exitTime && this.hasPendingBreakpoints()) {
+      await new Promise((r) => setTimeout(r, 100));
+    }
+
+    return {
+      breakpoints: this.listBreakpoints(),
+      functionBreakpoints: this.listFunctionBreakpoints(),
+    };
   }
 
   // ==================== Breakpoint Management ====================
@@ -387,94 +704,281 @@ export class DebugSession {
   async setBreakpoint(
     file: string,
     line: number,
-    condition?: string
-  ): Promise<Breakpoint> {
+    options: BreakpointOptions = {}
+  ): Promise<SourceBreakpointEntry> {
     const client = this.requireClient();
 
+    const capabilities = client.getCapabilities();
+    if (options.condition) {
+      requireCapability(capabilities, "supportsConditionalBreakpoints");
+    }
+    if (options.hitCondition) {
+      requireCapability(capabilities, "supportsHitConditionalBreakpoints");
+    }
+    if (options.logMessage) {
+      requireCapability(capabilities, "supportsLogPoints");
+    }
+
     // Normalize path
     const normalizedPath = path.isAbsolute(file) ? file : path.resolve(process.cwd(), file);
 
-    // Get or create breakpoint maps for this file
-    let fileBps = this.breakpointsByFile.get(normalizedPath);
-    if (!fileBps) {
-      fileBps = new Map();
-      this.breakpointsByFile.set(normalizedPath, fileBps);
+    // Reuse the breakpoint at this line, keeping its ID, history and hit count
+    const existing = this.findBreakpoint(normalizedPath, line);
+    const entry: StoredBreakpoint = existing || {
+      id: this.nextBreakpointId++,
+      file: normalizedPath,
+      spec: { line },
+      breakpoint: { verified: false },
+      history: [],
+      enabled: true,
+      hitCount: 0,
+    };
+    const previous = existing && { spec: existing.spec, enabled: existing.enabled, unplaced: existing.unplaced };
+    entry.spec = { line, ...options };
+    entry.enabled = true;
+    entry.unplaced = undefined;
+    this.sourceBreakpoints.set(entry.id, entry);
+
+    // Roll back so the stored set matches what the adapter has
+    const rollBack = () => {
+      if (previous) {
+        Object.assign(entry, previous);
+      } else {
+        this.sourceBreakpoints.delete(entry.id);
+      }
+    };
+
+    // All breakpoints for this file are set together
+    const index = this.sentBreakpoints(normalizedPath).indexOf(entry);
+    let result: Breakpoint[];
+    try {
+      result = await this.sendSourceBreakpoints(client, normalizedPath);
+    } catch (err) {
+      rollBack();
+      throw err;
     }
 
-    let fileConditions = this.conditionsByFile.get(normalizedPath);
-    if (!fileConditions) {
-      fileConditions = new Map();
-      this.conditionsByFile.set(normalizedPath, fileConditions);
+    if (result[index]) {
+      entry.anchor = this.readAnchor(normalizedPath, line) || entry.anchor;
+      return entry;
     }
 
-    // Store the condition for the new breakpoint
-    fileConditions.set(line, condition);
+    rollBack();
+    throw new Error(`Failed to set breakpoint at ${file}:${line}`);
+  }
+
+  async removeBreakpoint(file: string, line: number): Promise<void> {
+    const client = this.requireClient();
 
-    // Collect all breakpoints for this file (using stored conditions)
-    const allBps: Array<{ line: number; condition?: string }> = [];
-    for (const [existingLine] of fileBps) {
-      const existingCondition = fileConditions.get(existingLine);
-      allBps.push({ line: existingLine, condition: existingCondition });
+    const normalizedPath = path.isAbsolute(file) ? file : path.resolve(process.cwd(), file);
+    const entry = this.findBreakpoint(normalizedPath, line);
+    if (!entry) {
+      throw new Error(`No breakpoint at ${file}:${line}`);
     }
-    // Add the new one if not already present
-    if (!fileBps.has(line)) {
-      allBps.push({ line, condition });
+
+    this.sourceBreakpoints.delete(entry.id);
+
+    // Re-set remaining breakpoints
+    await this.sendSourceBreakpoints(client, normalizedPath);
+  }
+
+  async setFunctionBreakpoint(name: string, condition?: string): Promise<FunctionBreakpointEntry> {
+    const client = this.requireClient();
+
+    const capabilities = client.getCapabilities();
+    requireCapability(capabilities, "supportsFunctionBreakpoints");
+    if (condition) {
+      requireCapability(capabilities, "supportsConditionalBreakpoints");
     }
 
-    // Set all breakpoints
-    const result = await client.setBreakpoints(normalizedPath, allBps);
+    const previous = this.functionBreakpoints.get(name);
+    this.functionBreakpoints.set(name, {
+      spec: { name, condition },
+      breakpoint: previous?.breakpoint || { verified: false },
+      history: previous?.history || [],
+      enabled: true,
+      id: previous?.id ?? this.nextBreakpointId++,
+      hitCount: previous?.hitCount ?? 0,
+      lastHit: previous?.lastHit,
+    });
 
-    // Find the new breakpoint in result
-    const newBp = result.find((bp) => bp.line === line);
-    if (newBp) {
-      fileBps.set(line, newBp);
-      return newBp;
+    try {
+      await this.sendFunctionBreakpoints(client);
+    } catch (err) {
+      // Roll back so the stored set matches what the adapter has
+      if (previous) {
+        this.functionBreakpoints.set(name, previous);
+      } else {
+        this.functionBreakpoints.delete(name);
+      }
+      throw err;
     }
 
-    throw new Error(`Failed to set breakpoint at ${file}:${line}`);
+    return this.functionBreakpoints.get(name)!;
   }
 
-  async removeBreakpoint(file: string, line: number): Promise<void> {
+  async removeFunctionBreakpoint(name: string): Promise<void> {
     const client = this.requireClient();
 
-    const normalizedPath = path.isAbsolute(file) ? file : path.resolve(process.cwd(), file);
-    const fileBps = this.breakpointsByFile.get(normalizedPath);
-    const fileConditions = this.conditionsByFile.get(normalizedPath);
+    if (!this.functionBreakpoints.has(name)) {
+      throw new Error(`No function breakpoint on ${name}`);
+    }
 
-    if (!fileBps || !fileBps.has(line)) {
-      throw new Error(`No breakpoint at ${file}:${line}`);
+    this.functionBreakpoints.delete(name);
+    await this.sendFunctionBreakpoints(client);
+  }
+
+  /**
+   * Remove a source or function breakpoint by its server-side ID.
+   * Returns where it was.
+   */
+  async removeBreakpointById(id: number): Promise<{ file: string; line: number } | { functionName: string }> {
+    const source = this.sourceBreakpoints.get(id);
+    if (source) {
+      const client = this.requireClient();
+      this.sourceBreakpoints.delete(id);
+      await this.sendSourceBreakpoints(client, source.file);
+      return { file: source.file, line: source.spec.line };
     }
 
-    fileBps.delete(line);
-    fileConditions?.delete(line);
+    const fn = this.listFunctionBreakpoints().find((e) => e.id === id);
+    if (fn) {
+      await this.removeFunctionBreakpoint(fn.spec.name);
+      return { functionName: fn.spec.name };
+    }
+
+    throw new Error(`No breakpoint with ID ${id}. Use 'list_breakpoints' to see IDs.`);
+  }
+
+  listFunctionBreakpoints(): FunctionBreakpointEntry[] {
+    return Array.from(this.functionBreakpoints.values());
+  }
+
+  async setExceptionBreakpoints(
+    filters: string[],
+    exceptionTypes: string[] = []
+  ): Promise<void> {
+    const client = this.requireClient();
+    const settings: ExceptionBreakpointSettings = { filters, exceptionTypes };
+
+    const capabilities = client.getCapabilities();
+    if (exceptionTypes.length > 0) {
+      requireCapability(capabilities, "supportsExceptionOptions");
+    }
 
-    // Re-set remaining breakpoints (using stored conditions)
-    const remainingBps: Array<{ line: number; condition?: string }> = [];
-    for (const [existingLine] of fileBps) {
-      const existingCondition = fileConditions?.get(existingLine);
-      remainingBps.push({ line: existingLine, condition: existingCondition });
+    // Reject filters the adapter doesn't advertise (when it advertises any)
+    const known = capabilities.exceptionBreakpointFilters?.map((f) => f.filter);
+    const unknown = known && known.length > 0 ? filters.filter((f) => !known.includes(f)) : [];
+    if (unknown.length > 0) {
+      throw new Error(
+        `Exception filter(s) not supported by this adapter: ${unknown.join(", ")}. Available: ${known!.join(", ")}`
+      );
     }
 
-    await client.setBreakpoints(normalizedPath, remainingBps);
+    await client.setExceptionBreakpoints(filters, this.buildExceptionOptions(settings));
+    this.exceptionBreakpoints = filters.length > 0 || exceptionTypes.length > 0 ? settings : null;
   }
 
-  listBreakpoints(): Breakpoint[] {
-    const all: Breakpoint[] = [];
-    for (const fileBps of this.breakpointsByFile.values()) {
-      for (const bp of fileBps.values()) {
-        all.push(bp);
+  getExceptionBreakpoints(): ExceptionBreakpointSettings | null {
+    return this.exceptionBreakpoints;
+  }
+
+  listBreakpoints(): SourceBreakpointEntry[] {
+    return Array.from(this.sourceBreakpoints.values());
+  }
+
+  /**
+   * Enable or disable breakpoints without losing their settings: one source
+   * breakpoint (file + line), all in a file (file), a function breakpoint
+   * (functionName), or every breakpoint (no target). Disabled breakpoints
+   * stay listed but aren't sent to the adapter. Returns the breakpoints
+   * whose state changed.
+   */
+  async setBreakpointsEnabled(
+    enabled: boolean,
+    target: { file?: string; line?: number; functionName?: string } = {}
+  ): Promise<BreakpointList> {
+    const client = this.requireClient();
+
+    if (target.line !== undefined && !target.file) {
+      throw new Error("Provide file together with line");
+    }
+
+    let sources: StoredBreakpoint[] = [];
+    let functions: FunctionBreakpointEntry[] = [];
+    if (target.functionName) {
+      const entry = this.functionBreakpoints.get(target.functionName);
+      if (!entry) {
+        throw new Error(`No function breakpoint on ${target.functionName}`);
+      }
+      functions = [entry];
+    } else if (target.file) {
+      const file = path.isAbsolute(target.file) ? target.file : path.resolve(process.cwd(), target.file);
+      sources = this.breakpointsIn(file).filter((e) => target.line === undefined || e.spec.line === target.line);
+      if (sources.length === 0) {
+        throw new Error(
+          target.line !== undefined ? `No breakpoint at ${target.file}:${target.line}` : `No breakpoints in ${target.file}`
+        );
+      }
+    } else {
+      sources = Array.from(this.sourceBreakpoints.values());
+      functions = this.listFunctionBreakpoints();
+    }
+
+    sources = sources.filter((e) => e.enabled !== enabled);
+    functions = functions.filter((e) => e.enabled !== enabled);
+    const changed = [...sources, ...functions];
+    const previousStates = changed.map((e) => e.breakpoint);
+
+    for (const entry of changed) {
+      entry.enabled = enabled;
+      if (!enabled) {
+        // The adapter drops it, so its old state and ID no longer apply
+        entry.breakpoint = DISABLED_BREAKPOINT;
       }
     }
-    return all;
+    for (const entry of sources) {
+      if (enabled && entry.unplaced) {
+        // Still not sent until a reload finds its line again
+        entry.breakpoint = this.unsentState(entry);
+      }
+    }
+
+    const files = Array.from(new Set(sources.map((e) => e.file)));
+    let sent = 0;
+    try {
+      for (const file of files) {
+        await this.sendSourceBreakpoints(client, file);
+        sent++;
+      }
+      if (functions.length > 0) {
+        await this.sendFunctionBreakpoints(client);
+      }
+    } catch (err) {
+      // Roll back, and put files already sent back the way the adapter had them
+      changed.forEach((entry, i) => {
+        entry.enabled = !enabled;
+        entry.breakpoint = previousStates[i];
+      });
+      for (const file of files.slice(0, sent)) {
+        await this.sendSourceBreakpoints(client, file).catch(() => {});
+      }
+      throw err;
+    }
+
+    return { breakpoints: sources, functionBreakpoints: functions };
   }
 
   // ==================== Execution Control ====================
 
   async continue(threadId?: number): Promise<void> {
     const client = this.requireClient();
-    await client.continue(threadId || this.lastStoppedThreadId || 1);
+    const tid = threadId || this.lastStoppedThreadId || 1;
+    // Clear before sending so a fast stopped event isn't overwritten
     this.lastStoppedReason = null;
     this.lastStoppedThreadId = null;
+    this.clearExecutionCache();
+    await client.continue(tid);
   }
 
   async pause(threadId?: number): Promise<void> {
@@ -482,148 +986,1245 @@ export class DebugSession {
     await client.pause(threadId || 1);
   }
 
-  async stepOver(threadId?: number): Promise<void> {
-    const client = this.requireClient();
-    await client.stepOver(threadId || this.lastStoppedThreadId || 1);
+  async stepOver(threadId?: number): Promise<void> {
+    const client = this.requireClient();
+    this.clearExecutionCache();
+    await client.stepOver(threadId || this.lastStoppedThreadId || 1);
+  }
+
+  async stepInto(threadId?: number): Promise<void> {
+    const client = this.requireClient();
+    this.clearExecutionCache();
+    await client.stepInto(threadId || this.lastStoppedThreadId || 1);
+  }
+
+  async stepOut(threadId?: number): Promise<void> {
+    const client = this.requireClient();
+    this.clearExecutionCache();
+    await client.stepOut(threadId || this.lastStoppedThreadId || 1);
+  }
+
+  /**
+   * Run an execution command and wait for the next stopped, exited or
+   * terminated event. Listeners are attached before the command is sent so
+   * a fast stop cannot be missed.
+   */
+  async runUntilStop(
+    action: () => Promise<void>,
+    timeoutMs: number = 30000,
+    maxLocals: number = 10
+  ): Promise<StopInfo> {
+    const client = this.requireClient();
+
+    const info = await new Promise<StopInfo>((resolve, reject) => {
+      const onStopped = (body: StoppedEventBody) =>
+        finish({
+          event: "stopped",
+          reason: body.reason,
+          description: body.text,
+          threadId: body.threadId,
+          hitBreakpointIds: body.hitBreakpointIds,
+        });
+      const onExited = (body: ExitedEventBody) =>
+        finish({ event: "exited", exitCode: body?.exitCode });
+      const onTerminated = () => finish({ event: "terminated" });
+
+      const detach = () => {
+        clearTimeout(timer);
+        client.off("stopped", onStopped);
+        client.off("exited", onExited);
+        client.off("terminated", onTerminated);
+      };
+      const finish = (result: StopInfo) => {
+        detach();
+        resolve(result);
+      };
+      const timer = setTimeout(() => finish({ event: "timeout" }), timeoutMs);
+
+      client.on("stopped", onStopped);
+      client.on("exited", onExited);
+      client.on("terminated", onTerminated);
+
+      action().catch((err) => {
+        detach();
+        reject(err);
+      });
+    });
+
+    if (info.event !== "stopped") {
+      return info;
+    }
+
+    // Describe the stop location; failures here shouldn't hide the stop itself
+    try {
+      const frames = await client.getStackTrace(info.threadId, 0, 1);
+      this.rememberFrames(frames);
+      info.frame = frames[0];
+      if (info.frame) {
+        const vars = await this.readLocals(client, info.frame.id);
+        if (vars) {
+          info.totalLocals = vars.length;
+          info.locals = vars.slice(0, maxLocals);
+        }
+      }
+    } catch {
+      // Ignore inspection errors
+    }
+
+    return info;
+  }
+
+  /**
+   * Run to a source line or function: set a one-shot breakpoint, continue
+   * (or keep running), wait for the next stop and remove the breakpoint
+   * again. The user's breakpoints are re-sent unchanged around it. A user
+   * breakpoint at the target is reused if it stops unconditionally;
+   * otherwise the one-shot breakpoint stands in for it until then.
+   */
+  async runTo(target: RunToTarget, timeoutMs: number = 30000): Promise<RunToResult> {
+    const client = this.requireClient();
+
+    if (this.runToBreakpoint) {
+      throw new Error("Another run_to is already in progress");
+    }
+
+    let breakpoint: Breakpoint;
+    let temporary = true;
+
+    try {
+      if ("functionName" in target) {
+        requireCapability(client.getCapabilities(), "supportsFunctionBreakpoints");
+        const existing = this.functionBreakpoints.get(target.functionName);
+        if (existing?.enabled && !existing.spec.condition && !existing.spec.hitCondition) {
+          breakpoint = existing.breakpoint;
+          temporary = false;
+        } else {
+          this.runToBreakpoint = target;
+          const names = this.listFunctionBreakpoints().filter((e) => e.enabled).map((e) => e.spec.name);
+          const results = await this.sendFunctionBreakpoints(client);
+          const index = names.indexOf(target.functionName);
+          breakpoint = results[index >= 0 ? index : names.length] || { verified: false };
+        }
+      } else {
+        const file = path.isAbsolute(target.file) ? target.file : path.resolve(process.cwd(), target.file);
+        const existing = this.findBreakpoint(file, target.line);
+        const { condition, hitCondition, logMessage } = existing?.spec || {};
+        if (existing?.enabled && !existing.unplaced && !condition && !hitCondition && !logMessage) {
+          breakpoint = existing.breakpoint;
+          temporary = false;
+        } else {
+          this.runToBreakpoint = { file, line: target.line };
+          const lines = this.sentBreakpoints(file).map((e) => e.spec.line);
+          const results = await this.sendSourceBreakpoints(client, file);
+          const index = lines.indexOf(target.line);
+          breakpoint = results[index >= 0 ? index : lines.length] || { verified: false };
+        }
+      }
+
+      // Already running: just wait for the breakpoint to be hit
+      const action = this.lastStoppedReason ? () => this.continue() : async () => {};
+      const stop = await this.runUntilStop(action, timeoutMs);
+      return { stop, reached: this.isStopAt(stop, breakpoint, target), breakpoint, temporary };
+    } finally {
+      await this.removeRunToBreakpoint();
+    }
+  }
+
+  /**
+   * Step repeatedly, recording each location and the locals that changed,
+   * until maxSteps or an until* condition is reached, or execution stops
+   * for another reason (breakpoint, exception, exit).
+   */
+  async trace(options: TraceOptions): Promise<TraceResult> {
+    const client = this.requireClient();
+
+    if (!this.lastStoppedReason) {
+      throw new Error("The program must be stopped to trace. Use 'pause' or set a breakpoint first.");
+    }
+
+    const tid = options.threadId || this.lastStoppedThreadId || 1;
+    const startFrames = await client.getStackTrace(tid, 0, 0);
+    const start = startFrames[0];
+    if (!start) {
+      throw new Error("No stack frames available. Is the program stopped?");
+    }
+    const startDepth = startFrames.length;
+    const untilFile = options.untilFile || start.source?.path;
+
+    if (options.untilCondition) {
+      // Fail before stepping if the condition can't be evaluated at all
+      await this.evaluate(options.untilCondition, start.id);
+    }
+
+    const step = options.mode === "into" ? () => this.stepInto(tid) : () => this.stepOver(tid);
+    const steps: TraceStep[] = [];
+    // Last locals seen at each stack depth, so returning from a call diffs
+    // against the caller's locals from before the call
+    const localsByDepth = new Map<number, { name: string; locals: Variable[] }>();
+    localsByDepth.set(startDepth, { name: start.name, locals: (await this.readLocals(client, start.id)) || [] });
+
+    for (let i = 0; i < options.maxSteps; i++) {
+      const stop = await this.runUntilStop(step, options.stepTimeoutMs, Number.MAX_SAFE_INTEGER);
+      if (stop.event !== "stopped") {
+        return { start, startDepth, steps, endReason: stop.event, exitCode: stop.exitCode };
+      }
+
+      const frames = await client.getStackTrace(tid, 0, 0);
+      this.rememberFrames(frames);
+      const frame = frames[0] || stop.frame;
+      if (!frame) {
+        return { start, startDepth, steps, endReason: "stopped", stopReason: stop.reason };
+      }
+
+      const depth = frames.length;
+      const locals = stop.locals || [];
+      const previous = localsByDepth.get(depth);
+      steps.push({
+        frame,
+        depth,
+        changes: diffLocals(previous?.name === frame.name ? previous.locals : [], locals),
+      });
+      for (const d of localsByDepth.keys()) {
+        if (d > depth) localsByDepth.delete(d);
+      }
+      localsByDepth.set(depth, { name: frame.name, locals });
+
+      if (stop.reason !== "step") {
+        return { start, startDepth, steps, endReason: "stopped", stopReason: stop.reason };
+      }
+      if (options.untilFrameExit && depth < startDepth) {
+        return { start, startDepth, steps, endReason: "frameExit" };
+      }
+      if (
+        options.untilLine !== undefined &&
+        frame.line === options.untilLine &&
+        (!untilFile || (!!frame.source?.path && path.resolve(frame.source.path) === path.resolve(untilFile)))
+      ) {
+        return { start, startDepth, steps, endReason: "line" };
+      }
+      if (options.untilCondition && (await this.conditionHolds(options.untilCondition, frame.id))) {
+        return { start, startDepth, steps, endReason: "condition" };
+      }
+    }
+
+    return { start, startDepth, steps, endReason: "maxSteps" };
+  }
+
+  // ==================== Inspection ====================
+
+  async getStackTrace(threadId?: number, depth: number = 20): Promise<StackFrame[]> {
+    const client = this.requireClient();
+    const tid = threadId || this.lastStoppedThreadId || 1;
+    const frames = await client.getStackTrace(tid, 0, depth);
+    this.rememberFrames(frames);
+    return frames;
+  }
+
+  async getScopes(frameId: number): Promise<Scope[]> {
+    const client = this.requireClient();
+    const scopes = await client.getScopes(frameId);
+    for (const scope of scopes) {
+      this.recordReferenceCounts(scope);
+    }
+    return scopes;
+  }
+
+  async getVariables(variablesReference: number, paging: VariablesPaging = {}): Promise<Variable[]> {
+    const client = this.requireClient();
+
+    const key = `${variablesReference}:${paging.filter || ""}:${paging.start ?? ""}:${paging.count ?? ""}`;
+    const cached = this.variablesCache.get(key);
+    if (cached) return cached;
+
+    const vars = await client.getVariables(variablesReference, paging);
+    this.variablesCache.set(key, vars);
+    for (const v of vars) {
+      this.recordReferenceCounts(v);
+    }
+    return vars;
+  }
+
+  /**
+   * Fetch one page of a container's children. When the adapter reported an
+   * indexed child count and supports paging, named children (on the first
+   * page) plus a slice of indexed children are requested; otherwise all
+   * children are fetched and sliced here.
+   */
+  async getVariablesPage(
+    variablesReference: number,
+    start: number = 0,
+    count: number = 50
+  ): Promise<VariablesPage> {
+    const client = this.requireClient();
+    const counts = this.referenceCounts.get(variablesReference);
+
+    if (counts?.indexed && client.getCapabilities().supportsVariablePaging) {
+      const named = start === 0 && counts.named !== 0
+        ? await this.getVariables(variablesReference, { filter: "named" })
+        : [];
+      const indexed = await this.getVariables(variablesReference, { filter: "indexed", start, count });
+      return {
+        variables: [...named, ...indexed],
+        start,
+        end: start + indexed.length,
+        total: counts.indexed,
+        paged: "indexed",
+      };
+    }
+
+    const all = await this.getVariables(variablesReference);
+    const page = all.slice(start, start + count);
+    return {
+      variables: page,
+      start,
+      end: start + page.length,
+      total: all.length,
+      paged: "all",
+    };
+  }
+
+  /**
+   * Change a variable (by container reference and name) or an assignable
+   * expression (in a frame) while stopped. Cached variables for the current
+   * stop are dropped since other values may depend on the change.
+   */
+  async setVariable(params: {
+    value: string;
+    variablesReference?: number;
+    name?: string;
+    expression?: string;
+    frameId?: number;
+  }): Promise<{ value: string; type?: string; variablesReference?: number }> {
+    const client = this.requireClient();
+    const capabilities = client.getCapabilities();
+
+    if (!this.lastStoppedReason) {
+      throw new Error("Variables can only be changed while the program is stopped");
+    }
+
+    let result: { value: string; type?: string; variablesReference?: number };
+    if (params.variablesReference !== undefined && params.name) {
+      requireCapability(capabilities, "supportsSetVariable");
+      result = await client.setVariable(params.variablesReference, params.name, params.value);
+    } else if (params.expression) {
+      requireCapability(capabilities, "supportsSetExpression");
+      result = await client.setExpression(params.expression, params.value, params.frameId);
+    } else {
+      throw new Error("Provide either variablesReference and name, or expression");
+    }
+
+    // Values changed, but execution is still stopped at the same frames
+    this.clearVariableCache();
+    return result;
+  }
+
+  async evaluate(
+    expression: string,
+    frameId?: number,
+    timeoutMs?: number
+  ): Promise<EvaluateResult> {
+    const client = this.requireClient();
+    const result = await client.evaluate(expression, frameId, "repl", { timeoutMs });
+    this.recordReferenceCounts(result);
+    return result;
+  }
+
+  async getExceptionInfo(threadId?: number): Promise<ExceptionInfo> {
+    const client = this.requireClient();
+
+    if (this.lastStoppedReason !== "exception") {
+      throw new Error(
+        `Not stopped on an exception (state: ${this.lastStoppedReason || "running"}). Use 'set_exception_breakpoints' to break on exceptions.`
+      );
+    }
+    requireCapability(client.getCapabilities(), "supportsExceptionInfoRequest");
+
+    return client.exceptionInfo(threadId || this.lastStoppedThreadId || 1);
+  }
+
+  async getThreads(): Promise<Thread[]> {
+    const client = this.requireClient();
+    return client.getThreads();
+  }
+
+  // ==================== Watch Expressions ====================
+
+  /**
+   * Add a watch expression. It is evaluated right away if the program is
+   * stopped, and again on every stop.
+   */
+  async addWatch(expression: string): Promise<WatchExpression> {
+    const watch: WatchExpression = { id: this.nextWatchId++, expression };
+    this.watchExpressions.set(watch.id, watch);
+
+    if (this.dapClient && this.lastStoppedReason) {
+      await this.watchRefresh;
+      await this.evaluateWatches([watch], this.lastStoppedThreadId || undefined);
+    }
+    return watch;
+  }
+
+  removeWatch(id: number): WatchExpression {
+    const watch = this.watchExpressions.get(id);
+    if (!watch) {
+      throw new Error(`No watch with ID ${id}. Use 'list_watches' to see them.`);
+    }
+    this.watchExpressions.delete(id);
+    return watch;
+  }
+
+  /**
+   * Watch expressions with their latest values, once evaluation for the
+   * latest stop has finished.
+   */
+  async getWatches(): Promise<WatchExpression[]> {
+    await this.watchRefresh;
+    return Array.from(this.watchExpressions.values());
+  }
+
+  // ==================== Snapshots ====================
+
+  /**
+   * Capture the locals and arguments of a frame (the top frame by default)
+   * under a name, replacing any earlier snapshot with that name.
+   */
+  async takeSnapshot(name: string, options: { frameId?: number; depth?: number } = {}): Promise<LocalsSnapshot> {
+    const snapshot = await this.captureLocals(name, options.frameId, options.depth ?? 2);
+    this.snapshots.set(name, snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Diff a snapshot against another snapshot, or against the current state
+   * of the frame it was taken in (same depth; top frame unless frameId is given).
+   */
+  async diffSnapshot(name: string, against?: string, frameId?: number): Promise<SnapshotDiff> {
+    const from = this.getSnapshot(name);
+    const to = against !== undefined
+      ? this.getSnapshot(against)
+      : await this.captureLocals("current", frameId, from.depth);
+
+    const added: SnapshotDiff["added"] = [];
+    const removed: SnapshotDiff["removed"] = [];
+    const changed: SnapshotDiff["changed"] = [];
+
+    for (const [p, v] of to.values) {
+      const before = from.values.get(p);
+      if (!before) {
+        added.push({ path: p, value: v.value });
+      } else if (before.value !== v.value) {
+        changed.push({ path: p, from: before.value, to: v.value });
+      }
+    }
+    for (const [p, v] of from.values) {
+      if (!to.values.has(p)) {
+        removed.push({ path: p, value: v.value });
+      }
+    }
+
+    return { from, to, added, removed, changed };
+  }
+
+  listSnapshots(): LocalsSnapshot[] {
+    return Array.from(this.snapshots.values());
+  }
+
+  // ==================== Output ====================
+
+  getOutput(lines: number = 20): string[] {
+    return this.outputBuffer.slice(-lines);
+  }
+
+  clearOutput(): void {
+    this.outputBuffer.length = 0;
+  }
+
+  addOutput(text: string): void {
+    this.outputBuffer.push(text);
+    this.trimOutputBuffer();
+  }
+
+  // ==================== Source ====================
+
+  /**
+   * Get source lines around a frame (from stack_trace), a file/line or a
+   * sourceReference/line. Defaults to the top frame of the stopped thread.
+   * Lines with breakpoints are annotated.
+   */
+  async getSourceContext(
+    target: { frameId?: number; path?: string; sourceReference?: number; line?: number },
+    contextLines: number = 5
+  ): Promise<SourceContext> {
+    let source: Source;
+    let line: number;
+
+    if (target.frameId !== undefined) {
+      const frame = this.framesById.get(target.frameId);
+      if (!frame) {
+        throw new Error(`Unknown frame ${target.frameId}. Use stack_trace to list the frames of the current stop.`);
+      }
+      if (!frame.source) {
+        throw new Error(`Frame ${target.frameId} (${frame.name}) has no source`);
+      }
+      source = frame.source;
+      line = frame.line;
+    } else if (target.path || target.sourceReference) {
+      if (target.line === undefined) {
+        throw new Error("line is required with a file or sourceReference");
+      }
+      source = { path: target.path, sourceReference: target.sourceReference };
+      line = target.line;
+    } else {
+      const [top] = await this.getStackTrace(undefined, 1);
+      if (!top) {
+        throw new Error("No stack frames available. Is the program stopped?");
+      }
+      if (!top.source) {
+        throw new Error(`Frame ${top.id} (${top.name}) has no source`);
+      }
+      source = top.source;
+      line = top.line;
+    }
+
+    const content = await this.readSource(source);
+    const all = content.split(/\r?\n/);
+    if (line < 1 || line > all.length) {
+      throw new Error(`Line ${line} is outside ${source.path || `source ${source.sourceReference}`} (${all.length} lines)`);
+    }
+
+    const breakpoints = source.path ? this.breakpointLinesFor(source.path) : new Map<number, Breakpoint>();
+    const start = Math.max(1, line - contextLines);
+    const end = Math.min(all.length, line + contextLines);
+    const lines: SourceLine[] = [];
+    for (let n = start; n <= end; n++) {
+      const bp = breakpoints.get(n);
+      lines.push({
+        line: n,
+        text: all[n - 1],
+        current: n === line,
+        breakpoint: bp ? (bp.verified ? "verified" : "pending") : undefined,
+      });
+    }
+
+    return {
+      path: source.path,
+      sourceReference: source.sourceReference || undefined,
+      line,
+      lines,
+    };
+  }
+
+  // ==================== Modules ====================
+
+  listModules(): Module[] {
+    return Array.from(this.modules.values());
+  }
+
+  listLoadedSources(): Source[] {
+    return Array.from(this.loadedSources.values());
+  }
+
+  getDapLog(count: number = 30): DAPTrafficEntry[] {
+    return this.dapRecorder.getRecent(count);
+  }
+
+  getDapRecordingPath(): string | null {
+    return this.dapRecorder.getRecordingPath();
+  }
+
+  // ==================== Status ====================
+
+  isRunning(): boolean {
+    return this.dapClient !== null && this.dapClient.isRunning();
+  }
+
+  isReconnecting(): boolean {
+    return this.watchState?.reconnecting || false;
+  }
+
+  isWatchMode(): boolean {
+    return this.watchState !== null;
+  }
+
+  getCapabilities(): Capabilities {
+    return this.requireClient().getCapabilities();
+  }
+
+  getConfig(): SessionConfig | null {
+    return this.config;
+  }
+
+  getStatus(): SessionStatus {
+    let state: SessionStatus["state"] = "terminated";
+
+    if (this.watchState?.reconnecting) {
+      state = "reconnecting";
+    } else if (this.dapClient?.isRunning() && !this.exitTime) {
+      state = this.lastStoppedReason ? "stopped" : "running";
+    }
+
+    const uptime = this.config?.startTime
+      ? Math.floor((Date.now() - this.config.startTime.getTime()) / 1000)
+      : 0;
+
+    const breakpointCount = this.sourceBreakpoints.size + this.functionBreakpoints.size;
+
+    return {
+      state,
+      stoppedReason: this.lastStoppedReason || undefined,
+      stoppedThreadId: this.lastStoppedThreadId || undefined,
+      processId: this.config?.processId,
+      uptime,
+      breakpointCount,
+      outputLineCount: this.outputBuffer.length,
+      adapterHealth: this.dapClient?.getHealth(),
+      exit: this.getExitInfo() || undefined,
+    };
+  }
+
+  /**
+   * Post-mortem data for a debuggee that has exited, or null while it runs.
+   */
+  getExitInfo(): ExitInfo | null {
+    if (!this.exitTime) return null;
+    return this.buildExitInfo(this.exitTime);
+  }
+
+  /**
+   * Capture post-mortem data now, e.g. before the session is torn down.
+   * Works whether or not the debuggee has exited yet.
+   */
+  capturePostMortem(): ExitInfo {
+    return this.buildExitInfo(this.exitTime || new Date());
+  }
+
+  getWatchState(): WatchState | null {
+    return this.watchState;
+  }
+
+  /**
+   * Placed source breakpoints by file and requested line.
+   */
+  getBreakpointsByFile(): Map<string, Map<number, Breakpoint>> {
+    const byFile = new Map<string, Map<number, Breakpoint>>();
+    for (const entry of this.sourceBreakpoints.values()) {
+      if (entry.unplaced) continue;
+      let fileBps = byFile.get(entry.file);
+      if (!fileBps) {
+        fileBps = new Map();
+        byFile.set(entry.file, fileBps);
+      }
+      fileBps.set(entry.spec.line, entry.breakpoint);
+    }
+    return byFile;
+  }
+
+  // ==================== Private Helpers ====================
+
+  private clearVariableCache(): void {
+    this.variablesCache.clear();
+    this.referenceCounts.clear();
+  }
+
+  /**
+   * Forget frames and variables; their IDs are only valid until execution resumes.
+   */
+  private clearExecutionCache(): void {
+    this.clearVariableCache();
+    this.framesById.clear();
+  }
+
+  private rememberFrames(frames: StackFrame[]): void {
+    for (const frame of frames) {
+      this.framesById.set(frame.id, frame);
+    }
+  }
+
+  /**
+   * Read source text from disk, or from the adapter for sources it
+   * only knows by reference (decompiled or generated code).
+   */
+  private async readSource(source: Source): Promise<string> {
+    if (source.sourceReference && source.sourceReference > 0) {
+      const result = await this.requireClient().source(source);
+      return result.content;
+    }
+    if (!source.path) {
+      throw new Error("Source has neither a path nor a sourceReference");
+    }
+    try {
+      return fs.readFileSync(source.path, "utf-8");
+    } catch {
+      throw new Error(`Source file not readable: ${source.path}`);
+    }
+  }
+
+  /**
+   * Active breakpoints in a file keyed by the line they are bound to (the
+   * adapter may move them from the requested line).
+   */
+  private breakpointLinesFor(file: string): Map<number, Breakpoint> {
+    const result = new Map<number, Breakpoint>();
+    const target = path.resolve(file);
+    for (const entry of this.sourceBreakpoints.values()) {
+      if (path.resolve(entry.file) !== target || !entry.enabled || entry.unplaced) continue;
+      result.set(entry.breakpoint.line ?? entry.spec.line, entry.breakpoint);
+    }
+    return result;
+  }
+
+  /**
+   * Read the locals of a frame (its first inexpensive scope), or null if
+   * the frame has none.
+   */
+  private async readLocals(client: DAPClient, frameId: number): Promise<Variable[] | null> {
+    const scopes = await client.getScopes(frameId);
+    const locals = scopes.find((s) => !s.expensive);
+    if (!locals || locals.variablesReference <= 0) return null;
+    return client.getVariables(locals.variablesReference);
+  }
+
+  private getSnapshot(name: string): LocalsSnapshot {
+    const snapshot = this.snapshots.get(name);
+    if (!snapshot) {
+      const names = Array.from(this.snapshots.keys());
+      throw new Error(
+        `No snapshot named '${name}'. ${names.length > 0 ? `Snapshots: ${names.join(", ")}` : "Use 'snapshot_locals' to take one."}`
+      );
+    }
+    return snapshot;
+  }
+
+  /**
+   * Walk a frame's inexpensive scopes breadth-first down to `depth` levels
+   * below each local, recording every value by path.
+   */
+  private async captureLocals(name: string, frameId: number | undefined, depth: number): Promise<LocalsSnapshot> {
+    if (!this.lastStoppedReason) {
+      throw new Error("The program must be stopped to snapshot locals. Use 'pause' or set a breakpoint first.");
+    }
+
+    let frame = frameId !== undefined ? this.framesById.get(frameId) : undefined;
+    if (!frame) {
+      const frames = await this.getStackTrace(undefined, frameId !== undefined ? 0 : 1);
+      frame = frameId !== undefined ? frames.find((f) => f.id === frameId) : frames[0];
+    }
+    if (!frame) {
+      throw new Error(
+        frameId !== undefined ? `Unknown frame ID ${frameId}. Use 'stack_trace' to list frames.` : "No stack frames available"
+      );
+    }
+
+    const values = new Map<string, { value: string; type?: string }>();
+    const seenRefs = new Set<number>();
+    let truncated = false;
+    let queue: Array<{ path: string; ref: number }> = [];
+
+    for (const scope of await this.getScopes(frame.id)) {
+      if (!scope.expensive && scope.variablesReference > 0) {
+        queue.push({ path: "", ref: scope.variablesReference });
+      }
+    }
+
+    // Level 0 lists the locals themselves; each further level expands one step deeper
+    for (let level = 0; level <= depth && queue.length > 0; level++) {
+      const next: typeof queue = [];
+      for (const item of queue) {
+        if (seenRefs.has(item.ref)) continue;
+        seenRefs.add(item.ref);
+
+        const page = await this.getVariablesPage(item.ref, 0, SNAPSHOT_MAX_CHILDREN);
+        if (page.end < page.total) truncated = true;
+
+        for (const v of page.variables) {
+          if (values.size >= SNAPSHOT_MAX_VALUES) {
+            truncated = true;
+            break;
+          }
+          const p = item.path ? childPath(item.path, v.name) : v.name;
+          values.set(p, { value: v.value, type: v.type });
+          if (v.variablesReference > 0 && v.name !== "Static members") {
+            next.push({ path: p, ref: v.variablesReference });
+          }
+        }
+      }
+      queue = next;
+    }
+
+    return { name, time: new Date(), frame, depth, values, truncated };
+  }
+
+  /**
+   * Evaluate a trace condition; evaluation errors (e.g. a variable that is
+   * out of scope in this frame) count as false.
+   */
+  private async conditionHolds(expression: string, frameId: number): Promise<boolean> {
+    try {
+      const result = await this.evaluate(expression, frameId);
+      return result.result === "true";
+    } catch {
+      return false;
+    }
+  }
+
+  private recordReferenceCounts(item: {
+    variablesReference: number;
+    namedVariables?: number;
+    indexedVariables?: number;
+  }): void {
+    if (item.variablesReference > 0 && (item.namedVariables !== undefined || item.indexedVariables !== undefined)) {
+      this.referenceCounts.set(item.variablesReference, {
+        named: item.namedVariables,
+        indexed: item.indexedVariables,
+      });
+    }
+  }
+
+  private buildExitInfo(exitTime: Date): ExitInfo {
+    return {
+      exitCode: this.exitCode,
+      exitTime,
+      lastStop: this.lastStop || undefined,
+      outputTail: this.outputBuffer.slice(-20),
+      unhandledException: this.lastException || undefined,
+    };
+  }
+
+  private requireClient(): DAPClient {
+    if (this.watchState?.reconnecting) {
+      throw new Error(
+        "Debugger is reconnecting after hot reload. Please wait a moment and try again."
+      );
+    }
+
+    if (!this.dapClient || !this.dapClient.isRunning()) {
+      throw new Error(
+        `Session '${this.id}' debugger not running. Use 'launch' or 'launch_watch' to start.`
+      );
+    }
+    return this.dapClient;
+  }
+
+  /**
+   * Normalized paths of the files that have source breakpoints.
+   */
+  private breakpointFiles(): string[] {
+    return Array.from(new Set(Array.from(this.sourceBreakpoints.values(), (e) => e.file)));
   }
 
-  async stepInto(threadId?: number): Promise<void> {
-    const client = this.requireClient();
-    await client.stepInto(threadId || this.lastStoppedThreadId || 1);
+  private breakpointsIn(file: string): StoredBreakpoint[] {
+    return Array.from(this.sourceBreakpoints.values()).filter((e) => e.file === file);
   }
 
-  async stepOut(threadId?: number): Promise<void> {
-    const client = this.requireClient();
-    await client.stepOut(threadId || this.lastStoppedThreadId || 1);
+  /**
+   * A file's breakpoints that should be sent to the adapter, in request order.
+   */
+  private sentBreakpoints(file: string): StoredBreakpoint[] {
+    return this.breakpointsIn(file).filter((e) => e.enabled && !e.unplaced);
   }
 
-  // ==================== Inspection ====================
-
-  async getStackTrace(threadId?: number, depth: number = 20): Promise<StackFrame[]> {
-    const client = this.requireClient();
-    const tid = threadId || this.lastStoppedThreadId || 1;
-    return client.getStackTrace(tid, depth);
+  /**
+   * The breakpoint requested at a file's line. An unplaced breakpoint keeps
+   * its old line, which another breakpoint may have moved onto; the placed
+   * one wins then.
+   */
+  private findBreakpoint(file: string, line: number): StoredBreakpoint | undefined {
+    const atLine = this.breakpointsIn(file).filter((e) => e.spec.line === line);
+    return atLine.find((e) => !e.unplaced) || atLine[0];
   }
 
-  async getScopes(frameId: number): Promise<Scope[]> {
-    const client = this.requireClient();
-    return client.getScopes(frameId);
+  /**
+   * State of a breakpoint the adapter doesn't have (yet).
+   */
+  private unsentState(entry: StoredBreakpoint): Breakpoint {
+    if (!entry.enabled) return DISABLED_BREAKPOINT;
+    return { verified: false, message: entry.unplaced || "Not yet sent to the adapter" };
   }
 
-  async getVariables(variablesReference: number): Promise<Variable[]> {
-    const client = this.requireClient();
-    return client.getVariables(variablesReference);
+  private readAnchor(file: string, line: number): BreakpointAnchor | null {
+    try {
+      return captureAnchor(fs.readFileSync(file, "utf-8").split(/\r?\n/), line);
+    } catch {
+      return null;
+    }
   }
 
-  async evaluate(expression: string, frameId?: number): Promise<{ result: string; type?: string; variablesReference: number }> {
-    const client = this.requireClient();
-    return client.evaluate(expression, frameId);
-  }
+  /**
+   * After a reload in watch mode, move each source breakpoint to the line
+   * its anchored content is on now. Breakpoints whose content can't be found
+   * are kept but not sent until a later reload finds it again.
+   */
+  private relocateBreakpoints(): void {
+    for (const file of this.breakpointFiles()) {
+      let lines: string[];
+      try {
+        lines = fs.readFileSync(file, "utf-8").split(/\r?\n/);
+      } catch {
+        continue; // Leave this file's breakpoints where they are
+      }
 
-  async getThreads(): Promise<Thread[]> {
-    const client = this.requireClient();
-    return client.getThreads();
-  }
+      // Placed breakpoints first, so they keep their lines ahead of ones
+      // left unplaced by an earlier reload
+      const entries = this.breakpointsIn(file).sort((a, b) => Number(!!a.unplaced) - Number(!!b.unplaced));
+
+      // Resolve every breakpoint before moving any, so breakpoints that
+      // shift together don't collide with each other's old lines
+      const claimed = new Set<number>();
+      const targets = new Map<StoredBreakpoint, number | string>(); // New line, or why it can't be placed
+      for (const entry of entries) {
+        const found = entry.anchor ? findAnchoredLine(lines, entry.anchor, entry.spec.line) : entry.spec.line;
+        if (found === null) {
+          targets.set(entry, `Line content no longer found after reload: ${entry.anchor!.text}`);
+        } else if (claimed.has(found)) {
+          targets.set(entry, `Moved to line ${found}, which already has a breakpoint`);
+        } else {
+          targets.set(entry, found);
+          claimed.add(found);
+        }
+      }
 
-  // ==================== Output ====================
+      for (const [entry, target] of targets) {
+        const name = `${path.basename(file)}:${entry.spec.line}`;
 
-  getOutput(lines: number = 20): string[] {
-    return this.outputBuffer.slice(-lines);
-  }
+        if (typeof target === "string") {
+          // Keep its line and old anchor to look for the content again on the next reload
+          entry.unplaced = target;
+          entry.breakpoint = { verified: false, message: target };
+          this.outputBuffer.push(`[Hot Reload] Could not place breakpoint ${name}: ${target}\n`);
+          continue;
+        }
 
-  clearOutput(): void {
-    this.outputBuffer.length = 0;
+        entry.unplaced = undefined;
+        entry.anchor = captureAnchor(lines, target) || entry.anchor;
+        if (target !== entry.spec.line) {
+          entry.spec = { ...entry.spec, line: target };
+          this.outputBuffer.push(`[Hot Reload] Breakpoint ${name} moved to line ${target}\n`);
+        }
+      }
+    }
+    this.trimOutputBuffer();
   }
 
-  addOutput(text: string): void {
-    this.outputBuffer.push(text);
+  /**
+   * Relocate breakpoints after a hot reload or rebuild in watch mode and send
+   * them to the adapter that is still attached. A process restart instead
+   * relocates when reconnecting.
+   */
+  private async relocateAttachedBreakpoints(): Promise<void> {
+    const client = this.dapClient;
+    if (!client?.isRunning() || this.watchState?.reconnecting) return;
+
+    // Every file, including ones left without sendable breakpoints, so stale lines are cleared
+    const files = this.breakpointFiles();
+    this.relocateBreakpoints();
+    for (const file of files) {
+      try {
+        await this.sendSourceBreakpoints(client, file);
+      } catch (err) {
+        this.outputBuffer.push(
+          `[Hot Reload] Failed to set breakpoints in ${file}: ${err instanceof Error ? err.message : String(err)}\n`
+        );
+      }
+    }
     this.trimOutputBuffer();
   }
 
-  // ==================== Status ====================
+  /**
+   * Send the session's breakpoints to a new adapter connection, before
+   * configurationDone so none are missed at startup. Results from the
+   * previous connection no longer apply, so each breakpoint starts out
+   * pending. Failures are reported in the output instead of failing the
+   * launch.
+   */
+  private async applyBreakpoints(client: DAPClient): Promise<void> {
+    for (const entry of this.sourceBreakpoints.values()) {
+      entry.breakpoint = this.unsentState(entry);
+    }
+    for (const file of this.breakpointFiles()) {
+      if (this.sentBreakpoints(file).length === 0) continue;
 
-  isRunning(): boolean {
-    return this.dapClient !== null && this.dapClient.isRunning();
-  }
+      try {
+        await this.sendSourceBreakpoints(client, file);
+      } catch (err) {
+        this.outputBuffer.push(
+          `[Debugger] Failed to set breakpoints in ${file}: ${err instanceof Error ? err.message : String(err)}\n`
+        );
+      }
+    }
 
-  isReconnecting(): boolean {
-    return this.watchState?.reconnecting || false;
-  }
+    if (this.functionBreakpoints.size > 0) {
+      for (const entry of this.functionBreakpoints.values()) {
+        entry.breakpoint = entry.enabled
+          ? { verified: false, message: "Not yet sent to the adapter" }
+          : DISABLED_BREAKPOINT;
+      }
+      try {
+        await this.sendFunctionBreakpoints(client);
+      } catch (err) {
+        this.outputBuffer.push(
+          `[Debugger] Failed to set function breakpoints: ${err instanceof Error ? err.message : String(err)}\n`
+        );
+      }
+    }
 
-  isWatchMode(): boolean {
-    return this.watchState !== null;
+    if (this.exceptionBreakpoints) {
+      try {
+        await client.setExceptionBreakpoints(
+          this.exceptionBreakpoints.filters,
+          this.buildExceptionOptions(this.exceptionBreakpoints)
+        );
+      } catch (err) {
+        this.outputBuffer.push(
+          `[Debugger] Failed to set exception breakpoints: ${err instanceof Error ? err.message : String(err)}\n`
+        );
+      }
+    }
+    this.trimOutputBuffer();
   }
 
-  getConfig(): SessionConfig | null {
-    return this.config;
+  private hasPendingBreakpoints(): boolean {
+    return (
+      this.listBreakpoints().some((e) => e.enabled && !e.breakpoint.verified) ||
+      this.listFunctionBreakpoints().some((e) => e.enabled && !e.breakpoint.verified)
+    );
   }
 
-  getStatus(): SessionStatus {
-    let state: SessionStatus["state"] = "terminated";
-
-    if (this.watchState?.reconnecting) {
-      state = "reconnecting";
-    } else if (this.dapClient?.isRunning()) {
-      state = this.lastStoppedReason ? "stopped" : "running";
+  /**
+   * Send all enabled function breakpoints (plus the run_to breakpoint, if
+   * it is a function) and store the results for the user's breakpoints.
+   */
+  private async sendFunctionBreakpoints(client: DAPClient): Promise<Breakpoint[]> {
+    const entries = Array.from(this.functionBreakpoints.values()).filter((e) => e.enabled);
+    // A conditional breakpoint on the run_to function is replaced by the run_to one until it is removed
+    const specs: FunctionBreakpoint[] = entries.map((e) => (this.isReplacedByRunTo(e) ? { name: e.spec.name } : e.spec));
+    const runTo = this.runToBreakpoint;
+    if (runTo && "functionName" in runTo && !entries.some((e) => this.isReplacedByRunTo(e))) {
+      specs.push({ name: runTo.functionName });
     }
 
-    const uptime = this.config?.startTime
-      ? Math.floor((Date.now() - this.config.startTime.getTime()) / 1000)
-      : 0;
+    const results = await client.setFunctionBreakpoints(specs);
+    entries.forEach((entry, i) => {
+      if (results[i] && !this.isReplacedByRunTo(entry)) {
+        this.recordBreakpointState(entry.history, entry.breakpoint, results[i], "set", entry.history.length === 0);
+        entry.breakpoint = results[i];
+      }
+    });
+    return results;
+  }
 
-    let breakpointCount = 0;
-    for (const fileBps of this.breakpointsByFile.values()) {
-      breakpointCount += fileBps.size;
+  /**
+   * Send a file's placed, enabled breakpoints (plus the run_to breakpoint,
+   * if it is in this file) and store the results for the user's
+   * breakpoints. Results are in request order.
+   */
+  private async sendSourceBreakpoints(client: DAPClient, file: string): Promise<Breakpoint[]> {
+    const entries = this.sentBreakpoints(file);
+    // A line holds one breakpoint, so the run_to breakpoint replaces a conditional one there until it is removed
+    const specs = entries.map((e) => (this.isReplacedByRunTo(e) ? { line: e.spec.line } : e.spec));
+    const runTo = this.runToBreakpoint;
+    if (runTo && "file" in runTo && runTo.file === file && !entries.some((e) => this.isReplacedByRunTo(e))) {
+      specs.push({ line: runTo.line });
     }
 
-    return {
-      state,
-      stoppedReason: this.lastStoppedReason || undefined,
-      stoppedThreadId: this.lastStoppedThreadId || undefined,
-      processId: this.config?.processId,
-      uptime,
-      breakpointCount,
-      outputLineCount: this.outputBuffer.length,
-    };
+    const results = await client.setBreakpoints(file, specs);
+    // Re-sending may re-bind the file's other breakpoints too, so store all of them
+    entries.forEach((entry, i) => {
+      if (results[i] && !this.isReplacedByRunTo(entry)) {
+        this.recordBreakpointState(entry.history, entry.breakpoint, results[i], "set", entry.history.length === 0);
+        entry.breakpoint = results[i];
+      }
+    });
+    return results;
   }
 
-  getWatchState(): WatchState | null {
-    return this.watchState;
+  /**
+   * Remove the run_to breakpoint by re-sending the user's breakpoints without it.
+   */
+  private async removeRunToBreakpoint(): Promise<void> {
+    const runTo = this.runToBreakpoint;
+    if (!runTo) return;
+    this.runToBreakpoint = null;
+
+    // The program may have exited while waiting; nothing to remove then
+    if (!this.dapClient?.isRunning()) return;
+
+    try {
+      if ("functionName" in runTo) {
+        await this.sendFunctionBreakpoints(this.dapClient);
+      } else {
+        await this.sendSourceBreakpoints(this.dapClient, runTo.file);
+      }
+    } catch (err) {
+      this.outputBuffer.push(
+        `[Debugger] Failed to remove run_to breakpoint: ${err instanceof Error ? err.message : String(err)}\n`
+      );
+      this.trimOutputBuffer();
+    }
   }
 
-  getBreakpointsByFile(): Map<string, Map<number, Breakpoint>> {
-    return this.breakpointsByFile;
+  /**
+   * Whether the run_to breakpoint currently stands in for a user breakpoint
+   * at the same line or function.
+   */
+  private isReplacedByRunTo(entry: StoredBreakpoint | FunctionBreakpointEntry): boolean {
+    const runTo = this.runToBreakpoint;
+    if (!runTo) return false;
+    if ("file" in entry) {
+      return "file" in runTo && runTo.file === entry.file && runTo.line === entry.spec.line;
+    }
+    return "functionName" in runTo && runTo.functionName === entry.spec.name;
   }
 
-  // ==================== Private Helpers ====================
+  /**
+   * Whether a stop is at the given breakpoint: by hit breakpoint ID when the
+   * adapter reports it, otherwise by comparing the top frame's location.
+   */
+  private isStopAt(stop: StopInfo, bp: Breakpoint, target: RunToTarget): boolean {
+    if (stop.event !== "stopped") return false;
+    if (bp.id !== undefined && stop.hitBreakpointIds?.includes(bp.id)) return true;
 
-  private requireClient(): DAPClient {
-    if (this.watchState?.reconnecting) {
-      throw new Error(
-        "Debugger is reconnecting after hot reload. Please wait a moment and try again."
-      );
+    const frame = stop.frame;
+    if (!frame) return false;
+
+    if ("functionName" in target) {
+      if (bp.line !== undefined && bp.source?.path && frame.source?.path) {
+        return frame.line === bp.line && path.resolve(frame.source.path) === path.resolve(bp.source.path);
+      }
+      const method = target.functionName.split(".").pop()!;
+      return frame.name.includes(method);
     }
 
-    if (!this.dapClient || !this.dapClient.isRunning()) {
-      throw new Error(
-        `Session '${this.id}' debugger not running. Use 'launch' or 'launch_watch' to start.`
-      );
+    const file = path.isAbsolute(target.file) ? target.file : path.resolve(process.cwd(), target.file);
+    return (
+      frame.line === (bp.line ?? target.line) &&
+      !!frame.source?.path &&
+      path.resolve(frame.source.path) === file
+    );
+  }
+
+  /**
+   * Apply an adapter breakpoint event (e.g. a pending breakpoint binding
+   * once its module loads) to the stored breakpoint with the same ID.
+   */
+  private handleBreakpointEvent(body: BreakpointEventBody): void {
+    const updated = body.breakpoint;
+    if (updated?.id === undefined) return;
+
+    const merge = (current: Breakpoint): Breakpoint =>
+      body.reason === "removed"
+        ? { ...current, verified: false, message: updated.message || "Removed by adapter" }
+        : { ...current, ...updated };
+
+    for (const entry of [...this.sourceBreakpoints.values(), ...this.functionBreakpoints.values()]) {
+      if (entry.breakpoint.id !== updated.id) continue;
+
+      const next = merge(entry.breakpoint);
+      this.recordBreakpointState(entry.history, entry.breakpoint, next, "event");
+      entry.breakpoint = next;
+      return;
     }
-    return this.dapClient;
+  }
+
+  /**
+   * Append a history entry when a breakpoint is first set or its verified
+   * state or bound line changes.
+   */
+  private recordBreakpointState(
+    history: BreakpointStateChange[],
+    previous: Breakpoint | undefined,
+    next: Breakpoint,
+    source: BreakpointStateChange["source"],
+    force: boolean = false
+  ): void {
+    if (!force && previous && previous.verified === next.verified && previous.line === next.line) {
+      return;
+    }
+
+    history.push({
+      time: new Date(),
+      verified: next.verified,
+      line: next.line,
+      message: next.message,
+      source,
+    });
+    while (history.length > 20) {
+      history.shift();
+    }
+  }
+
+  private buildExceptionOptions(settings: ExceptionBreakpointSettings): ExceptionOptions[] {
+    if (settings.exceptionTypes.length === 0) return [];
+
+    return [
+      {
+        path: [{ names: settings.exceptionTypes }],
+        breakMode: settings.filters.includes("all") ? "always" : "userUnhandled",
+      },
+    ];
   }
 
   private setupEventHandlers(): void {
     if (!this.dapClient) return;
 
+    this.dapClient.setRecorder(this.dapRecorder);
+
     this.dapClient.on("stopped", (body: StoppedEventBody) => {
       this.lastStoppedReason = body.reason;
       this.lastStoppedThreadId = body.threadId || null;
+      this.clearExecutionCache();
+      this.recordStop(body);
+
+      if (this.watchExpressions.size > 0) {
+        const watches = Array.from(this.watchExpressions.values());
+        for (const watch of watches) {
+          watch.previous = watch.current;
+          watch.current = undefined;
+        }
+        this.watchRefresh = this.evaluateWatches(watches, body.threadId);
+      }
+    });
+
+    this.dapClient.on("exited", (body: ExitedEventBody) => {
+      this.exitCode = body?.exitCode;
+      this.exitTime = new Date();
+      this.outputBuffer.push(`[Debugger] Process exited with code ${body?.exitCode ?? "unknown"}\n`);
+      this.trimOutputBuffer();
+    });
+
+    this.dapClient.on("continued", () => {
+      this.clearExecutionCache();
+    });
+
+    this.dapClient.on("breakpoint", (body: BreakpointEventBody) => {
+      this.handleBreakpointEvent(body);
+    });
+
+    this.dapClient.on("module", (body: ModuleEventBody) => {
+      if (body.reason === "removed") {
+        this.modules.delete(body.module.id);
+      } else {
+        this.modules.set(body.module.id, body.module);
+      }
+    });
+
+    this.dapClient.on("loadedSource", (body: LoadedSourceEventBody) => {
+      const key = body.source.path || body.source.name || String(body.source.sourceReference);
+      if (body.reason === "removed") {
+        this.loadedSources.delete(key);
+      } else {
+        this.loadedSources.set(key, body.source);
+      }
     });
 
     this.dapClient.on("output", (body: OutputEventBody) => {
       if (body.output) {
-        this.outputBuffer.push(body.output);
+        const logpoint = this.findLogpoint(body);
+        this.outputBuffer.push(logpoint ? `[logpoint ${logpoint}] ${body.output}` : body.output);
         this.trimOutputBuffer();
+
+        if (/unhandled exception/i.test(body.output)) {
+          this.lastException = body.output.trim();
+        }
       }
     });
 
@@ -631,14 +2232,145 @@ export class DebugSession {
       // Process terminated, may need to reconnect if in watch mode
       if (this.watchState && !this.watchState.reconnecting) {
         this.watchState.reconnectPromise = this.watchReconnect();
+      } else if (!this.watchState && !this.exitTime) {
+        // Some adapters end the session without an exited event
+        this.exitTime = new Date();
       }
     });
 
+    this.dapClient.on("unresponsive", (health: AdapterHealth) => {
+      this.outputBuffer.push(
+        `[Debugger] Adapter unresponsive after ${health.consecutiveTimeouts} timed-out requests (last: ${health.lastTimeout?.command})\n`
+      );
+      this.trimOutputBuffer();
+    });
+
     this.dapClient.on("error", (err: Error) => {
       console.error(`[${this.id}] DAP error:`, err.message);
     });
   }
 
+  /**
+   * Remember where execution stopped for post-mortem reporting. The top
+   * frame is fetched in the background so event handling isn't delayed.
+   */
+  private recordStop(body: StoppedEventBody): void {
+    const stop: StopLocation = { reason: body.reason, threadId: body.threadId, time: new Date() };
+    this.lastStop = stop;
+
+    if (body.reason === "exception") {
+      this.lastException = body.text || "Exception (no description)";
+    }
+
+    const atBreakpoint = body.reason === "breakpoint" || body.reason === "function breakpoint";
+    const hit: BreakpointHit = { time: stop.time, threadId: body.threadId };
+    if (atBreakpoint && body.hitBreakpointIds?.length) {
+      this.recordBreakpointHit(hit, { ids: body.hitBreakpointIds });
+    }
+
+    this.dapClient
+      ?.getStackTrace(body.threadId, 0, 1)
+      .then((frames) => {
+        stop.frame = frames[0];
+        if (atBreakpoint && !body.hitBreakpointIds?.length && frames[0]) {
+          this.recordBreakpointHit(hit, { frame: frames[0] });
+        }
+      })
+      .catch(() => {
+        // Ignore - the location is best effort
+      });
+  }
+
+  /**
+   * Count a breakpoint stop against the user's breakpoints: by the adapter's
+   * hit breakpoint IDs when it reports them, otherwise by the top frame's
+   * location (function breakpoints without a bound location by method name).
+   */
+  private recordBreakpointHit(hit: BreakpointHit, by: { ids: number[] } | { frame: StackFrame }): void {
+    const frame = "frame" in by ? by.frame : undefined;
+    const frameFile = frame?.source?.path ? path.resolve(frame.source.path) : undefined;
+    const hitById = (bp: Breakpoint) => "ids" in by && bp.id !== undefined && by.ids.includes(bp.id);
+    const count = (stats: BreakpointStats) => {
+      stats.hitCount++;
+      stats.lastHit = hit;
+    };
+
+    let matched = false;
+    for (const entry of this.sourceBreakpoints.values()) {
+      // While run_to stands in for it, its condition isn't applied, so the stop isn't its hit
+      if (!entry.enabled || entry.unplaced || this.isReplacedByRunTo(entry)) continue;
+      const bp = entry.breakpoint;
+      const atStop = frame
+        ? frameFile === path.resolve(entry.file) && frame.line === (bp.line ?? entry.spec.line)
+        : hitById(bp);
+      if (atStop) {
+        count(entry);
+        matched = true;
+      }
+    }
+
+    for (const entry of this.functionBreakpoints.values()) {
+      if (!entry.enabled || this.isReplacedByRunTo(entry)) continue;
+      const bp = entry.breakpoint;
+      let atStop = hitById(bp);
+      if (frame && bp.line !== undefined && bp.source?.path) {
+        atStop = frameFile === path.resolve(bp.source.path) && frame.line === bp.line;
+      } else if (frame && !matched) {
+        const method = (name: string) => name.replace(/\(.*$/, "").split(".").pop();
+        atStop = method(frame.name) === method(entry.spec.name);
+      }
+      if (atStop) {
+        count(entry);
+      }
+    }
+  }
+
+  /**
+   * Evaluate watch expressions in the top frame of a thread. Failures are
+   * stored per watch rather than thrown.
+   */
+  private async evaluateWatches(watches: WatchExpression[], threadId?: number): Promise<void> {
+    const client = this.dapClient;
+    if (!client) return;
+
+    let frameId: number | undefined;
+    let frameError: string | undefined;
+    try {
+      frameId = (await client.getStackTrace(threadId, 0, 1))[0]?.id;
+    } catch (err) {
+      frameError = err instanceof Error ? err.message : String(err);
+    }
+
+    for (const watch of watches) {
+      const time = new Date();
+      if (frameError) {
+        watch.current = { error: frameError, time };
+        continue;
+      }
+      try {
+        const result = await client.evaluate(watch.expression, frameId, "watch");
+        watch.current = { value: result.result, type: result.type, time };
+      } catch (err) {
+        watch.current = { error: err instanceof Error ? err.message : String(err), time };
+      }
+    }
+  }
+
+  /**
+   * Match an output event to a logpoint by its source location.
+   * Returns "File.cs:line" when the output came from a logpoint.
+   */
+  private findLogpoint(body: OutputEventBody): string | null {
+    if (!body.source?.path || !body.line) return null;
+
+    for (const { file, spec, breakpoint } of this.sourceBreakpoints.values()) {
+      if (file === body.source.path && spec.logMessage && (spec.line === body.line || breakpoint.line === body.line)) {
+        return `${path.basename(body.source.path)}:${body.line}`;
+      }
+    }
+    return null;
+  }
+
   private async cleanup(): Promise<void> {
     // Disconnect DAP client
     if (this.dapClient) {
@@ -649,12 +2381,23 @@ export class DebugSession {
       }
       this.dapClient = null;
     }
+    this.dapRecorder.stopRecording();
 
-    // Clear state
-    this.breakpointsByFile.clear();
+    // Clear state. Breakpoints and watches belong to the session rather than
+    // the adapter connection, and are sent again on the next launch/attach.
+    this.runToBreakpoint = null;
     this.outputBuffer.length = 0;
     this.lastStoppedReason = null;
     this.lastStoppedThreadId = null;
+    this.lastStop = null;
+    this.lastException = null;
+    this.exitCode = undefined;
+    this.exitTime = null;
+    this.clearExecutionCache();
+    this.modules.clear();
+    this.loadedSources.clear();
+    this.watchRefresh = null;
+    this.snapshots.clear();
   }
 
   private trimOutputBuffer(): void {
@@ -967,32 +2710,31 @@ export class DebugSession {
 
     // Attach to new process
     try {
+      // The new process loads its own assemblies
+      this.modules.clear();
+      this.loadedSources.clear();
+
       this.dapClient = new DAPClient();
       this.setupEventHandlers();
 
       await this.dapClient.start();
       await this.dapClient.attach(newPid);
+      // The reload may have been caused by edits that shifted breakpoint lines
+      this.relocateBreakpoints();
+      await this.applyBreakpoints(this.dapClient);
+      await this.dapClient.configurationDone();
 
       this.watchState.lastChildPid = newPid;
 
-      // Reapply breakpoints
-      for (const [file, bps] of this.breakpointsByFile) {
-        const lines = Array.from(bps.keys());
-        if (lines.length > 0) {
-          try {
-            const breakpoints = lines.map((l) => ({ line: l }));
-            await this.dapClient.setBreakpoints(file, breakpoints);
-          } catch {
-            // Ignore breakpoint errors during reconnect
-          }
-        }
-      }
-
       if (this.config) {
         this.config.processId = newPid;
         this.config.startTime = new Date();
       }
 
+      // The previous process's exit was part of the reload, not the end of the session
+      this.exitCode = undefined;
+      this.exitTime = null;
+
       this.outputBuffer.push(`[Hot Reload] Reconnected to process ${newPid}\n`);
       return true;
     } catch (err) {
@@ -1037,3 +2779,69 @@ export class DebugSession {
     }
   }
 }
+
+/**
+ * Locals whose value differs from the previous step, or that are new.
+ */
+function diffLocals(previous: Variable[], current: Variable[]): LocalChange[] {
+  const before = new Map(previous.map((v) => [v.name, v.value]));
+  const changes: LocalChange[] = [];
+  for (const v of current) {
+    const from = before.get(v.name);
+    if (from !== v.value) {
+      changes.push({ name: v.name, from, to: v.value });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Anchor for a (1-based) line, or null if the file is shorter.
+ */
+function captureAnchor(lines: string[], line: number): BreakpointAnchor | null {
+  const index = line - 1;
+  if (index < 0 || index >= lines.length) return null;
+  return {
+    text: lines[index].trim(),
+    before: lines.slice(Math.max(0, index - ANCHOR_CONTEXT_LINES), index).map((l) => l.trim()),
+    after: lines.slice(index + 1, index + 1 + ANCHOR_CONTEXT_LINES).map((l) => l.trim()),
+  };
+}
+
+/**
+ * Find the line an anchor points at now: a line with the same text whose
+ * neighbours match best, the closest to the old line on ties. Returns null
+ * when the text no longer appears. Blank lines can't be matched, so they
+ * keep their line.
+ */
+function findAnchoredLine(lines: string[], anchor: BreakpointAnchor, oldLine: number): number | null {
+  if (!anchor.text) {
+    return oldLine <= lines.length ? oldLine : null;
+  }
+
+  let best: { line: number; score: number } | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].trim() !== anchor.text) continue;
+
+    const candidate = captureAnchor(lines, i + 1)!;
+    let score = 0;
+    // Compare neighbours outwards from the line
+    const before = [...candidate.before].reverse();
+    [...anchor.before].reverse().forEach((text, j) => {
+      if (before[j] === text) score++;
+    });
+    anchor.after.forEach((text, j) => {
+      if (candidate.after[j] === text) score++;
+    });
+
+    const line = i + 1;
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && Math.abs(line - oldLine) < Math.abs(best.line - oldLine))
+    ) {
+      best = { line, score };
+    }
+  }
+  return best ? best.line : null;
+}
@@ -1,82 +1,443 @@
 /**
- * Breakpoint tools - set, remove, list breakpoints
+ * Breakpoint tools - set, remove, list, enable and disable breakpoints, function and exception breakpoints
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { sessionManager } from "../session-manager.js";
-import { sessionIdParam, textResponse } from "./types.js";
-import { sessionPrefix } from "../utils.js";
+import { sessionIdParam, structuredResponse } from "./types.js";
+import {
+  breakpointStateOutput,
+  breakpointHistoryOutput,
+  breakpointHitOutput,
+  toBreakpointStateOutput,
+  toBreakpointHistoryOutput,
+  toBreakpointHitOutput,
+} from "./output-schemas.js";
+import { sessionPrefix, formatBreakpointOptions, formatBreakpointState } from "../utils.js";
+import { BreakpointStateChange, BreakpointList, BreakpointStats } from "../session.js";
+
+// Which breakpoints enable_breakpoint/disable_breakpoint apply to
+const toggleInput = {
+  file: z.string().optional().describe("Source file (all its breakpoints, or just 'line')"),
+  line: z.number().optional().describe("Line of a single breakpoint in 'file'"),
+  functionName: z.string().optional().describe("Method name of a function breakpoint"),
+  sessionId: sessionIdParam,
+};
+
+const toggleOutput = {
+  sessionId: z.string(),
+  enabled: z.boolean(),
+  breakpoints: z.array(z.object({ id: z.number(), file: z.string(), line: z.number() })),
+  functionBreakpoints: z.array(z.string()),
+};
 
 export function registerBreakpointTools(server: McpServer): void {
   // Tool: set_breakpoint
-  server.tool(
+  server.registerTool(
     "set_breakpoint",
-    "Set a breakpoint at a specific line in a source file",
     {
-      file: z.string().describe("Absolute path to the source file"),
-      line: z.number().describe("Line number (1-based)"),
-      condition: z
-        .string()
-        .optional()
-        .describe("Optional condition expression for the breakpoint"),
-      sessionId: sessionIdParam,
+      description:
+        "Set a breakpoint at a specific line in a source file. Supports conditions, hit counts and logpoints (log a message instead of stopping).",
+      inputSchema: {
+        file: z.string().describe("Absolute path to the source file"),
+        line: z.number().describe("Line number (1-based)"),
+        condition: z
+          .string()
+          .optional()
+          .describe("Optional condition expression for the breakpoint"),
+        hitCondition: z
+          .string()
+          .optional()
+          .describe("Optional hit count condition, e.g. '>= 10' or '% 5'"),
+        logMessage: z
+          .string()
+          .optional()
+          .describe("Log this message instead of stopping (logpoint). Expressions in braces are interpolated, e.g. 'total = {order.Total}'"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        id: z.number(),
+        file: z.string(),
+        line: z.number(),
+        kind: z.enum(["breakpoint", "logpoint"]),
+        breakpoint: breakpointStateOutput,
+      },
     },
-    async ({ file, line, condition, sessionId }) => {
+    async ({ file, line, condition, hitCondition, logMessage, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
-      const result = await session.setBreakpoint(file, line, condition);
+      const { id, breakpoint: result } = await session.setBreakpoint(file, line, { condition, hitCondition, logMessage });
 
-      if (result.verified) {
-        return textResponse(
-          `${sessionPrefix(session.id)}Breakpoint set at ${file}:${line}${condition ? ` (condition: ${condition})` : ""}`
-        );
-      } else {
-        return textResponse(
-          `${sessionPrefix(session.id)}Breakpoint at ${file}:${line} pending verification (${result.message || "source may not be loaded yet"})`
-        );
-      }
+      const kind = logMessage ? "Logpoint" : "Breakpoint";
+      const text = result.verified
+        ? `${sessionPrefix(session.id)}${kind} #${id} set at ${file}:${line}${formatBreakpointOptions({ condition, hitCondition, logMessage })}`
+        : `${sessionPrefix(session.id)}${kind} #${id} at ${file}:${line} pending verification (${result.message || "source may not be loaded yet"})`;
+
+      return structuredResponse(text, {
+        sessionId: session.id,
+        id,
+        file,
+        line,
+        kind: logMessage ? ("logpoint" as const) : ("breakpoint" as const),
+        breakpoint: toBreakpointStateOutput(result),
+      });
     }
   );
 
   // Tool: remove_breakpoint
-  server.tool(
+  server.registerTool(
     "remove_breakpoint",
-    "Remove a breakpoint from a specific line",
     {
-      file: z.string().describe("Absolute path to the source file"),
-      line: z.number().describe("Line number of the breakpoint to remove"),
-      sessionId: sessionIdParam,
+      description:
+        "Remove a breakpoint by its ID from list_breakpoints (source or function breakpoint), or by file and line",
+      inputSchema: {
+        id: z.number().optional().describe("Breakpoint ID shown by list_breakpoints"),
+        file: z.string().optional().describe("Absolute path to the source file"),
+        line: z.number().optional().describe("Line number of the breakpoint to remove"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        id: z.number().optional(),
+        file: z.string().optional(),
+        line: z.number().optional(),
+        functionName: z.string().optional(),
+      },
     },
-    async ({ file, line, sessionId }) => {
+    async ({ id, file, line, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
+
+      if (id !== undefined) {
+        const removed = await session.removeBreakpointById(id);
+        const location = "functionName" in removed ? `function ${removed.functionName}` : `${removed.file}:${removed.line}`;
+        return structuredResponse(`${sessionPrefix(session.id)}Breakpoint #${id} removed from ${location}`, {
+          sessionId: session.id,
+          id,
+          ...removed,
+        });
+      }
+
+      if (!file || line === undefined) {
+        throw new Error("Provide either id, or file and line");
+      }
       await session.removeBreakpoint(file, line);
 
-      return textResponse(`${sessionPrefix(session.id)}Breakpoint removed from ${file}:${line}`);
+      return structuredResponse(`${sessionPrefix(session.id)}Breakpoint removed from ${file}:${line}`, {
+        sessionId: session.id,
+        file,
+        line,
+      });
     }
   );
 
   // Tool: list_breakpoints
-  server.tool(
+  server.registerTool(
     "list_breakpoints",
-    "List all active breakpoints",
     {
-      sessionId: sessionIdParam,
+      description:
+        "List all breakpoints with their IDs, current verified state (disabled ones are marked [disabled]) and how often each was hit",
+      inputSchema: {
+        history: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Include when each breakpoint became verified or unverified"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        breakpoints: z.array(
+          z.object({
+            id: z.number(),
+            file: z.string(),
+            line: z.number(),
+            condition: z.string().optional(),
+            hitCondition: z.string().optional(),
+            logMessage: z.string().optional(),
+            enabled: z.boolean(),
+            hitCount: z.number(),
+            lastHit: breakpointHitOutput.optional(),
+            state: breakpointStateOutput,
+            history: breakpointHistoryOutput.optional(),
+          })
+        ),
+        functionBreakpoints: z.array(
+          z.object({
+            id: z.number(),
+            name: z.string(),
+            condition: z.string().optional(),
+            hitCondition: z.string().optional(),
+            enabled: z.boolean(),
+            hitCount: z.number(),
+            lastHit: breakpointHitOutput.optional(),
+            state: breakpointStateOutput,
+            history: breakpointHistoryOutput.optional(),
+          })
+        ),
+      },
     },
-    async ({ sessionId }) => {
+    async ({ history, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
       const breakpoints = session.listBreakpoints();
+      const functionBreakpoints = session.listFunctionBreakpoints();
+
+      const structured = {
+        sessionId: session.id,
+        breakpoints: breakpoints.map(({ id, file, spec, breakpoint, history: changes, enabled, hitCount, lastHit }) => ({
+          id,
+          file,
+          line: spec.line,
+          condition: spec.condition,
+          hitCondition: spec.hitCondition,
+          logMessage: spec.logMessage,
+          enabled,
+          hitCount,
+          lastHit: lastHit ? toBreakpointHitOutput(lastHit) : undefined,
+          state: toBreakpointStateOutput(breakpoint),
+          history: history ? toBreakpointHistoryOutput(changes) : undefined,
+        })),
+        functionBreakpoints: functionBreakpoints.map(({ id, spec, breakpoint, history: changes, enabled, hitCount, lastHit }) => ({
+          id,
+          name: spec.name,
+          condition: spec.condition,
+          hitCondition: spec.hitCondition,
+          enabled,
+          hitCount,
+          lastHit: lastHit ? toBreakpointHitOutput(lastHit) : undefined,
+          state: toBreakpointStateOutput(breakpoint),
+          history: history ? toBreakpointHistoryOutput(changes) : undefined,
+        })),
+      };
+
+      if (breakpoints.length === 0 && functionBreakpoints.length === 0) {
+        return structuredResponse(`${sessionPrefix(session.id)}No breakpoints set`, structured);
+      }
+
+      const formatted = breakpoints.map((entry) => {
+        const { file, spec, breakpoint, history: changes, enabled } = entry;
+        const bound =
+          breakpoint.line !== undefined && breakpoint.line !== spec.line ? ` -> line ${breakpoint.line}` : "";
+        const state = enabled ? formatBreakpointState(breakpoint) : "[disabled]";
+        let text = `#${entry.id} ${file}:${spec.line}${bound}${formatBreakpointOptions(spec)} ${state}${formatBreakpointHits(entry)}`;
+        if (history) {
+          text += formatBreakpointHistory(changes);
+        }
+        return text;
+      });
+
+      for (const entry of functionBreakpoints) {
+        const { spec, breakpoint, history: changes, enabled } = entry;
+        const state = enabled ? formatBreakpointState(breakpoint) : "[disabled]";
+        let text = `#${entry.id} function ${spec.name}${formatBreakpointOptions(spec)} ${state}${formatBreakpointHits(entry)}`;
+        if (history) {
+          text += formatBreakpointHistory(changes);
+        }
+        formatted.push(text);
+      }
+
+      return structuredResponse(`${sessionPrefix(session.id)}Breakpoints:\n${formatted.join("\n")}`, structured);
+    }
+  );
+
+  // Tool: enable_breakpoint
+  server.registerTool(
+    "enable_breakpoint",
+    {
+      description:
+        "Re-enable disabled breakpoints: one (file + line), all in a file (file), a function breakpoint (functionName), or all breakpoints (no arguments)",
+      inputSchema: toggleInput,
+      outputSchema: toggleOutput,
+    },
+    async ({ file, line, functionName, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const changed = await session.setBreakpointsEnabled(true, { file, line, functionName });
+
+      return structuredResponse(`${sessionPrefix(session.id)}${formatToggled(changed, true)}`, {
+        sessionId: session.id,
+        ...toToggleOutput(changed, true),
+      });
+    }
+  );
+
+  // Tool: disable_breakpoint
+  server.registerTool(
+    "disable_breakpoint",
+    {
+      description:
+        "Temporarily silence breakpoints while keeping their conditions and settings: one (file + line), all in a file (file), a function breakpoint (functionName), or all breakpoints (no arguments)",
+      inputSchema: toggleInput,
+      outputSchema: toggleOutput,
+    },
+    async ({ file, line, functionName, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const changed = await session.setBreakpointsEnabled(false, { file, line, functionName });
+
+      return structuredResponse(`${sessionPrefix(session.id)}${formatToggled(changed, false)}`, {
+        sessionId: session.id,
+        ...toToggleOutput(changed, false),
+      });
+    }
+  );
 
-      if (breakpoints.length === 0) {
-        return textResponse(`${sessionPrefix(session.id)}No breakpoints set`);
+  // Tool: set_function_breakpoint
+  server.registerTool(
+    "set_function_breakpoint",
+    {
+      description: "Set a breakpoint on a method by name, e.g. 'MyApp.Orders.OrderService.Submit'",
+      inputSchema: {
+        name: z.string().describe("Method name, preferably fully qualified (Namespace.Type.Method)"),
+        condition: z
+          .string()
+          .optional()
+          .describe("Optional condition expression for the breakpoint"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        id: z.number(),
+        name: z.string(),
+        condition: z.string().optional(),
+        file: z.string().optional(),
+        breakpoint: breakpointStateOutput,
+      },
+    },
+    async ({ name, condition, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const { id, breakpoint: result } = await session.setFunctionBreakpoint(name, condition);
+
+      let text: string;
+      if (result.verified) {
+        const location = result.source?.path ? ` (${result.source.path}:${result.line})` : "";
+        text = `${sessionPrefix(session.id)}Function breakpoint #${id} set on ${name}${location}${condition ? ` (condition: ${condition})` : ""}`;
+      } else {
+        text = `${sessionPrefix(session.id)}Function breakpoint #${id} on ${name} pending verification (${result.message || "method may not be loaded yet"})`;
       }
 
-      const formatted = breakpoints.map((bp) => {
-        const status = bp.verified ? "verified" : "pending";
-        const source = bp.source?.path || "unknown";
-        return `${source}:${bp.line} [${status}]`;
+      return structuredResponse(text, {
+        sessionId: session.id,
+        id,
+        name,
+        condition,
+        file: result.source?.path,
+        breakpoint: toBreakpointStateOutput(result),
       });
+    }
+  );
+
+  // Tool: remove_function_breakpoint
+  server.registerTool(
+    "remove_function_breakpoint",
+    {
+      description: "Remove a function breakpoint",
+      inputSchema: {
+        name: z.string().describe("Method name the breakpoint was set on"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        name: z.string(),
+      },
+    },
+    async ({ name, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      await session.removeFunctionBreakpoint(name);
+
+      return structuredResponse(`${sessionPrefix(session.id)}Function breakpoint removed from ${name}`, {
+        sessionId: session.id,
+        name,
+      });
+    }
+  );
+
+  // Tool: set_exception_breakpoints
+  server.registerTool(
+    "set_exception_breakpoints",
+    {
+      description: "Break when exceptions are thrown. Pass an empty filter list to stop breaking on exceptions.",
+      inputSchema: {
+        filters: z
+          .array(z.enum(["all", "user-unhandled"]))
+          .describe("'all' breaks on every thrown exception, 'user-unhandled' on exceptions not handled by user code"),
+        exceptionTypes: z
+          .array(z.string())
+          .optional()
+          .describe("Only break on these exception types, e.g. 'System.InvalidOperationException' (if the adapter supports exception options)"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        filters: z.array(z.string()),
+        exceptionTypes: z.array(z.string()),
+      },
+    },
+    async ({ filters, exceptionTypes, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      await session.setExceptionBreakpoints(filters, exceptionTypes || []);
+
+      const structured = { sessionId: session.id, filters, exceptionTypes: exceptionTypes || [] };
 
-      return textResponse(`${sessionPrefix(session.id)}Breakpoints:\n${formatted.join("\n")}`);
+      if (filters.length === 0 && (!exceptionTypes || exceptionTypes.length === 0)) {
+        return structuredResponse(`${sessionPrefix(session.id)}Exception breakpoints cleared`, structured);
+      }
+
+      let text = `${sessionPrefix(session.id)}Breaking on exceptions: ${filters.join(", ") || "(none)"}`;
+      if (exceptionTypes && exceptionTypes.length > 0) {
+        text += `\nException types: ${exceptionTypes.join(", ")}`;
+      }
+      return structuredResponse(text, structured);
     }
   );
 }
+
+function toToggleOutput(changed: BreakpointList, enabled: boolean) {
+  return {
+    enabled,
+    breakpoints: changed.breakpoints.map((e) => ({ id: e.id, file: e.file, line: e.spec.line })),
+    functionBreakpoints: changed.functionBreakpoints.map((e) => e.spec.name),
+  };
+}
+
+/**
+ * Describe the breakpoints enable_breakpoint/disable_breakpoint changed.
+ */
+function formatToggled(changed: BreakpointList, enabled: boolean): string {
+  const action = enabled ? "Enabled" : "Disabled";
+  const lines = [
+    ...changed.breakpoints.map(
+      (e) => `  #${e.id} ${e.file}:${e.spec.line}${enabled ? ` ${formatBreakpointState(e.breakpoint)}` : ""}`
+    ),
+    ...changed.functionBreakpoints.map(
+      (e) => `  #${e.id} function ${e.spec.name}${enabled ? ` ${formatBreakpointState(e.breakpoint)}` : ""}`
+    ),
+  ];
+  if (lines.length === 0) {
+    return `No breakpoints to ${enabled ? "enable" : "disable"} (already ${enabled ? "enabled" : "disabled"})`;
+  }
+  return `${action} ${lines.length} breakpoint(s):\n${lines.join("\n")}`;
+}
+
+/**
+ * Hit count and last hit of a breakpoint, e.g. " hits: 3 (last 10:42:07 on thread 1)".
+ */
+function formatBreakpointHits(stats: BreakpointStats): string {
+  if (!stats.lastHit) {
+    return " hits: 0";
+  }
+  const thread = stats.lastHit.threadId !== undefined ? ` on thread ${stats.lastHit.threadId}` : "";
+  return ` hits: ${stats.hitCount} (last ${stats.lastHit.time.toLocaleTimeString()}${thread})`;
+}
+
+/**
+ * List a breakpoint's verified/unverified transitions, one per line.
+ */
+function formatBreakpointHistory(history: BreakpointStateChange[]): string {
+  return history
+    .map((h) => {
+      const state = h.verified ? "verified" : "unverified";
+      const line = h.line !== undefined ? ` at line ${h.line}` : "";
+      const message = h.message ? ` (${h.message})` : "";
+      return `\n    ${h.time.toLocaleTimeString()} ${state}${line}${message} [${h.source}]`;
+    })
+    .join("");
+}
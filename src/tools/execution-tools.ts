@@ -1,97 +1,338 @@
 /**
- * Execution control tools - continue, pause, step_over, step_into, step_out
+ * Execution control tools - continue, pause, step_over, step_into, step_out, run_to, trace
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { sessionManager } from "../session-manager.js";
-import { sessionIdParam, textResponse } from "./types.js";
-import { sessionPrefix } from "../utils.js";
+import { sessionIdParam, structuredResponse } from "./types.js";
+import {
+  stopInfoOutput,
+  breakpointStateOutput,
+  stackFrameOutput,
+  toStopInfoOutput,
+  toBreakpointStateOutput,
+  toStackFrameOutput,
+} from "./output-schemas.js";
+import { sessionPrefix, formatStopInfo, formatTrace } from "../utils.js";
+
+// Shared parameters for blocking continue/step
+const waitParam = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe("Wait for the next stop/exit and report where execution landed, instead of returning immediately");
+
+const timeoutMsParam = z
+  .number()
+  .optional()
+  .default(30000)
+  .describe("Maximum time to wait in milliseconds when wait is true");
+
+// Structured result of continue/step: the stop is only known when waiting
+const executionOutput = {
+  sessionId: z.string(),
+  waited: z.boolean(),
+  stop: stopInfoOutput.optional(),
+};
 
 export function registerExecutionTools(server: McpServer): void {
   // Tool: continue
-  server.tool(
+  server.registerTool(
     "continue",
-    "Continue program execution until next breakpoint or program end",
     {
-      threadId: z
-        .number()
-        .optional()
-        .describe("Thread ID to continue (defaults to current thread)"),
-      sessionId: sessionIdParam,
+      description: "Continue program execution until next breakpoint or program end",
+      inputSchema: {
+        threadId: z
+          .number()
+          .optional()
+          .describe("Thread ID to continue (defaults to current thread)"),
+        wait: waitParam,
+        timeoutMs: timeoutMsParam,
+        sessionId: sessionIdParam,
+      },
+      outputSchema: executionOutput,
     },
-    async ({ threadId, sessionId }) => {
+    async ({ threadId, wait, timeoutMs, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
+
+      if (wait) {
+        const info = await session.runUntilStop(() => session.continue(threadId), timeoutMs);
+        return structuredResponse(`${sessionPrefix(session.id)}${formatStopInfo(info)}`, {
+          sessionId: session.id,
+          waited: true,
+          stop: toStopInfoOutput(info),
+        });
+      }
+
       await session.continue(threadId);
 
-      return textResponse(`${sessionPrefix(session.id)}Continuing execution...`);
+      return structuredResponse(`${sessionPrefix(session.id)}Continuing execution...`, { sessionId: session.id, waited: false });
     }
   );
 
   // Tool: pause
-  server.tool(
+  server.registerTool(
     "pause",
-    "Pause program execution",
     {
-      threadId: z
-        .number()
-        .optional()
-        .describe("Thread ID to pause (defaults to all threads)"),
-      sessionId: sessionIdParam,
+      description: "Pause program execution",
+      inputSchema: {
+        threadId: z
+          .number()
+          .optional()
+          .describe("Thread ID to pause (defaults to all threads)"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+      },
     },
     async ({ threadId, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
       await session.pause(threadId);
 
-      return textResponse(`${sessionPrefix(session.id)}Execution paused`);
+      return structuredResponse(`${sessionPrefix(session.id)}Execution paused`, { sessionId: session.id });
     }
   );
 
   // Tool: step_over
-  server.tool(
+  server.registerTool(
     "step_over",
-    "Step over the current line (execute it without stepping into functions)",
     {
-      threadId: z.number().optional().describe("Thread ID"),
-      sessionId: sessionIdParam,
+      description: "Step over the current line (execute it without stepping into functions)",
+      inputSchema: {
+        threadId: z.number().optional().describe("Thread ID"),
+        wait: waitParam,
+        timeoutMs: timeoutMsParam,
+        sessionId: sessionIdParam,
+      },
+      outputSchema: executionOutput,
     },
-    async ({ threadId, sessionId }) => {
+    async ({ threadId, wait, timeoutMs, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
+
+      if (wait) {
+        const info = await session.runUntilStop(() => session.stepOver(threadId), timeoutMs);
+        return structuredResponse(`${sessionPrefix(session.id)}${formatStopInfo(info)}`, {
+          sessionId: session.id,
+          waited: true,
+          stop: toStopInfoOutput(info),
+        });
+      }
+
       await session.stepOver(threadId);
 
-      return textResponse(`${sessionPrefix(session.id)}Stepped over`);
+      return structuredResponse(`${sessionPrefix(session.id)}Stepped over`, { sessionId: session.id, waited: false });
     }
   );
 
   // Tool: step_into
-  server.tool(
+  server.registerTool(
     "step_into",
-    "Step into the function call on the current line",
     {
-      threadId: z.number().optional().describe("Thread ID"),
-      sessionId: sessionIdParam,
+      description: "Step into the function call on the current line",
+      inputSchema: {
+        threadId: z.number().optional().describe("Thread ID"),
+        wait: waitParam,
+        timeoutMs: timeoutMsParam,
+        sessionId: sessionIdParam,
+      },
+      outputSchema: executionOutput,
     },
-    async ({ threadId, sessionId }) => {
+    async ({ threadId, wait, timeoutMs, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
+
+      if (wait) {
+        const info = await session.runUntilStop(() => session.stepInto(threadId), timeoutMs);
+        return structuredResponse(`${sessionPrefix(session.id)}${formatStopInfo(info)}`, {
+          sessionId: session.id,
+          waited: true,
+          stop: toStopInfoOutput(info),
+        });
+      }
+
       await session.stepInto(threadId);
 
-      return textResponse(`${sessionPrefix(session.id)}Stepped into`);
+      return structuredResponse(`${sessionPrefix(session.id)}Stepped into`, { sessionId: session.id, waited: false });
     }
   );
 
   // Tool: step_out
-  server.tool(
+  server.registerTool(
     "step_out",
-    "Step out of the current function",
     {
-      threadId: z.number().optional().describe("Thread ID"),
-      sessionId: sessionIdParam,
+      description: "Step out of the current function",
+      inputSchema: {
+        threadId: z.number().optional().describe("Thread ID"),
+        wait: waitParam,
+        timeoutMs: timeoutMsParam,
+        sessionId: sessionIdParam,
+      },
+      outputSchema: executionOutput,
     },
-    async ({ threadId, sessionId }) => {
+    async ({ threadId, wait, timeoutMs, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
+
+      if (wait) {
+        const info = await session.runUntilStop(() => session.stepOut(threadId), timeoutMs);
+        return structuredResponse(`${sessionPrefix(session.id)}${formatStopInfo(info)}`, {
+          sessionId: session.id,
+          waited: true,
+          stop: toStopInfoOutput(info),
+        });
+      }
+
       await session.stepOut(threadId);
 
-      return textResponse(`${sessionPrefix(session.id)}Stepped out`);
+      return structuredResponse(`${sessionPrefix(session.id)}Stepped out`, { sessionId: session.id, waited: false });
+    }
+  );
+
+  // Tool: run_to
+  server.registerTool(
+    "run_to",
+    {
+      description:
+        "Run to a source line or method using a one-shot breakpoint that is removed again once execution stops. Existing breakpoints may stop execution first; a conditional breakpoint or logpoint at the target is replaced by the one-shot breakpoint until then and restored afterwards.",
+      inputSchema: {
+        file: z.string().optional().describe("Absolute path to the source file"),
+        line: z.number().optional().describe("Line number (1-based), with file"),
+        functionName: z
+          .string()
+          .optional()
+          .describe("Method name instead of file/line, preferably fully qualified (Namespace.Type.Method)"),
+        timeoutMs: z
+          .number()
+          .optional()
+          .default(30000)
+          .describe("Maximum time to wait for the stop in milliseconds"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        target: z.string(),
+        reached: z.boolean(),
+        temporary: z.boolean(),
+        breakpoint: breakpointStateOutput,
+        stop: stopInfoOutput,
+      },
+    },
+    async ({ file, line, functionName, timeoutMs, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+
+      if (!functionName && (!file || line === undefined)) {
+        throw new Error("Provide either file and line, or functionName");
+      }
+
+      const target = functionName || `${file}:${line}`;
+      const result = await session.runTo(
+        functionName ? { functionName } : { file: file!, line: line! },
+        timeoutMs
+      );
+
+      let text = result.reached ? `Reached ${target}\n` : `Did not reach ${target}\n`;
+      if (!result.breakpoint.verified) {
+        text += `(breakpoint was pending: ${result.breakpoint.message || "source may not be loaded yet"})\n`;
+      }
+      text += formatStopInfo(result.stop);
+
+      return structuredResponse(`${sessionPrefix(session.id)}${text}`, {
+        sessionId: session.id,
+        target,
+        reached: result.reached,
+        temporary: result.temporary,
+        breakpoint: toBreakpointStateOutput(result.breakpoint),
+        stop: toStopInfoOutput(result.stop),
+      });
+    }
+  );
+
+  // Tool: trace
+  server.registerTool(
+    "trace",
+    {
+      description:
+        "Step repeatedly and return a compact execution transcript: each visited location and the locals that changed since the previous step. Ends at maxSteps, an until* condition, or when execution stops for another reason (breakpoint, exception, exit). The program must be stopped.",
+      inputSchema: {
+        mode: z
+          .enum(["over", "into"])
+          .optional()
+          .default("over")
+          .describe("Step over calls, or into them"),
+        maxSteps: z.number().optional().default(20).describe("Maximum number of steps"),
+        untilLine: z.number().optional().describe("Stop once this line is reached"),
+        untilFile: z
+          .string()
+          .optional()
+          .describe("File for untilLine (defaults to the file of the current frame)"),
+        untilFrameExit: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Stop once the current method has returned"),
+        untilCondition: z
+          .string()
+          .optional()
+          .describe("Stop once this expression evaluates to true (e.g. 'i == 5')"),
+        stepTimeoutMs: z
+          .number()
+          .optional()
+          .default(10000)
+          .describe("Maximum time to wait for each step in milliseconds"),
+        threadId: z
+          .number()
+          .optional()
+          .describe("Thread ID to step (defaults to current thread)"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        mode: z.enum(["over", "into"]),
+        start: stackFrameOutput,
+        steps: z.array(
+          z.object({
+            frame: stackFrameOutput,
+            depth: z.number(),
+            changes: z.array(
+              z.object({
+                name: z.string(),
+                from: z.string().optional(),
+                to: z.string(),
+              })
+            ),
+          })
+        ),
+        endReason: z.enum(["maxSteps", "line", "frameExit", "condition", "stopped", "exited", "terminated", "timeout"]),
+        stopReason: z.string().optional(),
+        exitCode: z.number().optional(),
+      },
+    },
+    async ({ mode, maxSteps, untilLine, untilFile, untilFrameExit, untilCondition, stepTimeoutMs, threadId, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const result = await session.trace({
+        mode,
+        maxSteps,
+        untilLine,
+        untilFile,
+        untilFrameExit,
+        untilCondition,
+        stepTimeoutMs,
+        threadId,
+      });
+
+      return structuredResponse(`${sessionPrefix(session.id)}${formatTrace(result)}`, {
+        sessionId: session.id,
+        mode,
+        start: toStackFrameOutput(result.start),
+        steps: result.steps.map((s) => ({
+          frame: toStackFrameOutput(s.frame),
+          depth: s.depth,
+          changes: s.changes,
+        })),
+        endReason: result.endReason,
+        stopReason: result.stopReason,
+        exitCode: result.exitCode,
+      });
     }
   );
 }
@@ -1,51 +1,159 @@
 /**
- * Inspection tools - stack_trace, scopes, variables, evaluate, threads
+ * Inspection tools - stack_trace, source, scopes, variables, evaluate, add_watch, remove_watch,
+ * list_watches, watches, snapshot_locals, diff_snapshot, inspect, set_variable, threads,
+ * exception_info, modules
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { Variable } from "../dap-client.js";
+import { Variable, ExceptionDetails, Module } from "../dap-client.js";
 import { sessionManager } from "../session-manager.js";
-import { sessionIdParam, textResponse } from "./types.js";
-import { sessionPrefix, formatStackFrame, formatVariable } from "../utils.js";
+import { sessionIdParam, structuredResponse } from "./types.js";
+import {
+  stackFrameOutput,
+  variableOutput,
+  sourceContextOutput,
+  watchOutput,
+  toStackFrameOutput,
+  toVariableOutput,
+  toWatchOutput,
+} from "./output-schemas.js";
+import {
+  sessionPrefix,
+  formatStackFrame,
+  formatVariable,
+  formatSourceContext,
+  formatWatch,
+  watchChanged,
+  formatSnapshotDiff,
+} from "../utils.js";
+import { SourceContext } from "../session.js";
+import { inspect, renderTree, toJson, flattenTree } from "../inspector.js";
 
 export function registerInspectionTools(server: McpServer): void {
   // Tool: stack_trace
-  server.tool(
+  server.registerTool(
     "stack_trace",
-    "Get the current call stack",
     {
-      threadId: z.number().optional().describe("Thread ID"),
-      depth: z
-        .number()
-        .optional()
-        .default(20)
-        .describe("Maximum number of frames to return"),
-      sessionId: sessionIdParam,
+      description: "Get the current call stack",
+      inputSchema: {
+        threadId: z.number().optional().describe("Thread ID"),
+        depth: z
+          .number()
+          .optional()
+          .default(20)
+          .describe("Maximum number of frames to return"),
+        sourceLines: z
+          .number()
+          .optional()
+          .default(0)
+          .describe("Lines of source to show before and after each frame's line (0 = none)"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        frames: z.array(stackFrameOutput.extend({ source: sourceContextOutput.optional() })),
+      },
     },
-    async ({ threadId, depth, sessionId }) => {
+    async ({ threadId, depth, sourceLines, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
       const frames = await session.getStackTrace(threadId, depth);
 
+      // Frames without readable source are listed without context
+      const contexts = new Map<number, SourceContext>();
+      if (sourceLines > 0) {
+        for (const frame of frames) {
+          if (!frame.source) continue;
+          try {
+            contexts.set(frame.id, await session.getSourceContext({ frameId: frame.id }, sourceLines));
+          } catch {
+            // Source not on disk or not provided by the adapter
+          }
+        }
+      }
+
+      const structured = {
+        sessionId: session.id,
+        frames: frames.map((f) => ({ ...toStackFrameOutput(f), source: contexts.get(f.id) })),
+      };
+
       if (frames.length === 0) {
-        return textResponse(
-          `${sessionPrefix(session.id)}No stack frames available. Is the program stopped?`
+        return structuredResponse(
+          `${sessionPrefix(session.id)}No stack frames available. Is the program stopped?`,
+          structured
         );
       }
 
-      const formatted = frames.map(formatStackFrame).join("\n");
+      const formatted = frames
+        .map((f) => {
+          const context = contexts.get(f.id);
+          return context ? `${formatStackFrame(f)}\n${formatSourceContext(context, 1)}` : formatStackFrame(f);
+        })
+        .join("\n");
 
-      return textResponse(`${sessionPrefix(session.id)}Call Stack:\n${formatted}`);
+      return structuredResponse(`${sessionPrefix(session.id)}Call Stack:\n${formatted}`, structured);
+    }
+  );
+
+  // Tool: source
+  server.registerTool(
+    "source",
+    {
+      description:
+        "Show source lines around a stack frame (default: the top frame of the stopped thread) or a file/line, with the current line and breakpoints marked. Works for adapter-provided sources without a file on disk.",
+      inputSchema: {
+        frameId: z.number().optional().describe("Stack frame ID (from stack_trace)"),
+        file: z.string().optional().describe("Source file path, instead of a frame"),
+        sourceReference: z
+          .number()
+          .optional()
+          .describe("Adapter source reference, for sources without a file on disk"),
+        line: z.number().optional().describe("Line to center on (required with file or sourceReference)"),
+        contextLines: z
+          .number()
+          .optional()
+          .default(5)
+          .describe("Lines to show before and after the line"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        source: sourceContextOutput,
+      },
+    },
+    async ({ frameId, file, sourceReference, line, contextLines, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const context = await session.getSourceContext({ frameId, path: file, sourceReference, line }, contextLines);
+
+      const location = context.path || `source reference ${context.sourceReference}`;
+      return structuredResponse(
+        `${sessionPrefix(session.id)}${location}:${context.line}\n${formatSourceContext(context)}`,
+        { sessionId: session.id, source: context }
+      );
     }
   );
 
   // Tool: scopes
-  server.tool(
+  server.registerTool(
     "scopes",
-    "Get variable scopes for a stack frame",
     {
-      frameId: z.number().describe("Stack frame ID (from stack_trace)"),
-      sessionId: sessionIdParam,
+      description: "Get variable scopes for a stack frame",
+      inputSchema: {
+        frameId: z.number().describe("Stack frame ID (from stack_trace)"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        scopes: z.array(
+          z.object({
+            name: z.string(),
+            variablesReference: z.number(),
+            namedVariables: z.number().optional(),
+            indexedVariables: z.number().optional(),
+            expensive: z.boolean(),
+          })
+        ),
+      },
     },
     async ({ frameId, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
@@ -55,61 +163,488 @@ export function registerInspectionTools(server: McpServer): void {
         (s) => `${s.name} (ref: ${s.variablesReference}, expensive: ${s.expensive})`
       );
 
-      return textResponse(`${sessionPrefix(session.id)}Scopes:\n${lines.join("\n")}`);
+      return structuredResponse(`${sessionPrefix(session.id)}Scopes:\n${lines.join("\n")}`, {
+        sessionId: session.id,
+        scopes: scopes.map((s) => ({
+          name: s.name,
+          variablesReference: s.variablesReference,
+          namedVariables: s.namedVariables,
+          indexedVariables: s.indexedVariables,
+          expensive: s.expensive,
+        })),
+      });
     }
   );
 
   // Tool: variables
-  server.tool(
+  server.registerTool(
     "variables",
-    "Get variables from a scope or variable container",
     {
-      variablesReference: z
-        .number()
-        .describe("Variables reference (from scopes or parent variable)"),
-      sessionId: sessionIdParam,
+      description:
+        "Get variables from a scope or variable container. Large collections are returned one page at a time.",
+      inputSchema: {
+        variablesReference: z
+          .number()
+          .describe("Variables reference (from scopes or parent variable)"),
+        start: z
+          .number()
+          .optional()
+          .default(0)
+          .describe("Index of the first child to return (for paging through large collections)"),
+        count: z
+          .number()
+          .optional()
+          .default(50)
+          .describe("Maximum number of children to return"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        variablesReference: z.number(),
+        variables: z.array(variableOutput),
+        start: z.number(),
+        end: z.number(),
+        total: z.number(),
+        paged: z.enum(["indexed", "all"]),
+      },
     },
-    async ({ variablesReference, sessionId }) => {
+    async ({ variablesReference, start, count, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
-      const vars = await session.getVariables(variablesReference);
+      const page = await session.getVariablesPage(variablesReference, start, count);
+      const structured = {
+        sessionId: session.id,
+        variablesReference,
+        variables: page.variables.map(toVariableOutput),
+        start: page.start,
+        end: page.end,
+        total: page.total,
+        paged: page.paged,
+      };
+
+      if (page.variables.length === 0) {
+        return structuredResponse(
+          `${sessionPrefix(session.id)}${start > 0 ? `No variables from index ${start} (total ${page.total})` : "No variables in this scope"}`,
+          structured
+        );
+      }
+
+      const lines = page.variables.map(formatExpandableVariable);
 
-      if (vars.length === 0) {
-        return textResponse(`${sessionPrefix(session.id)}No variables in this scope`);
+      let header = "Variables:";
+      if (page.start > 0 || page.end < page.total) {
+        const kind = page.paged === "indexed" ? " indexed" : "";
+        header = `Variables (showing ${page.start}-${page.end - 1} of ${page.total}${kind}):`;
       }
 
-      const lines = vars.map((v) => formatVariable(v, 0));
+      let text = `${sessionPrefix(session.id)}${header}\n${lines.join("\n")}`;
+      if (page.end < page.total) {
+        text += `\n\nNext page: variables variablesReference=${variablesReference} start=${page.end} count=${count}`;
+      }
 
-      return textResponse(`${sessionPrefix(session.id)}Variables:\n${lines.join("\n")}`);
+      return structuredResponse(text, structured);
     }
   );
 
   // Tool: evaluate
-  server.tool(
+  server.registerTool(
     "evaluate",
-    "Evaluate an expression in the current debug context",
     {
-      expression: z.string().describe("Expression to evaluate"),
-      frameId: z
-        .number()
-        .optional()
-        .describe("Stack frame ID for context (from stack_trace)"),
-      sessionId: sessionIdParam,
+      description: "Evaluate an expression in the current debug context",
+      inputSchema: {
+        expression: z.string().describe("Expression to evaluate"),
+        frameId: z
+          .number()
+          .optional()
+          .describe("Stack frame ID for context (from stack_trace)"),
+        timeoutMs: z
+          .number()
+          .optional()
+          .describe("Request timeout in milliseconds (for slow function evaluations)"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        expression: z.string(),
+        result: z.string(),
+        type: z.string().optional(),
+        variablesReference: z.number(),
+        namedVariables: z.number().optional(),
+        indexedVariables: z.number().optional(),
+      },
+    },
+    async ({ expression, frameId, timeoutMs, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const result = await session.evaluate(expression, frameId, timeoutMs);
+
+      return structuredResponse(
+        `${sessionPrefix(session.id)}${formatExpandableVariable({ name: expression, value: result.result, ...result })}`,
+        {
+          sessionId: session.id,
+          expression,
+          result: result.result,
+          type: result.type,
+          variablesReference: result.variablesReference,
+          namedVariables: result.namedVariables,
+          indexedVariables: result.indexedVariables,
+        }
+      );
+    }
+  );
+
+  // Tool: add_watch
+  server.registerTool(
+    "add_watch",
+    {
+      description:
+        "Add a watch expression. Watches are evaluated in the top frame every time execution stops; use 'watches' to see their values and what changed since the last stop.",
+      inputSchema: {
+        expression: z.string().describe("Expression to watch"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        watch: watchOutput,
+      },
+    },
+    async ({ expression, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const watch = await session.addWatch(expression);
+
+      return structuredResponse(`${sessionPrefix(session.id)}Watch added: ${formatWatch(watch)}`, {
+        sessionId: session.id,
+        watch: toWatchOutput(watch),
+      });
+    }
+  );
+
+  // Tool: remove_watch
+  server.registerTool(
+    "remove_watch",
+    {
+      description: "Remove a watch expression",
+      inputSchema: {
+        id: z.number().describe("Watch ID (from add_watch or list_watches)"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        id: z.number(),
+        expression: z.string(),
+      },
+    },
+    async ({ id, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const watch = session.removeWatch(id);
+
+      return structuredResponse(`${sessionPrefix(session.id)}Watch removed: #${watch.id} ${watch.expression}`, {
+        sessionId: session.id,
+        id: watch.id,
+        expression: watch.expression,
+      });
+    }
+  );
+
+  // Tool: list_watches
+  server.registerTool(
+    "list_watches",
+    {
+      description: "List watch expressions and their IDs",
+      inputSchema: {
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        watches: z.array(z.object({ id: z.number(), expression: z.string() })),
+      },
+    },
+    async ({ sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const watches = (await session.getWatches()).map((w) => ({ id: w.id, expression: w.expression }));
+
+      const text =
+        watches.length === 0
+          ? "No watch expressions. Use 'add_watch' to add one."
+          : `Watch expressions:\n${watches.map((w) => `  #${w.id} ${w.expression}`).join("\n")}`;
+
+      return structuredResponse(`${sessionPrefix(session.id)}${text}`, { sessionId: session.id, watches });
+    }
+  );
+
+  // Tool: watches
+  server.registerTool(
+    "watches",
+    {
+      description:
+        "Show watch expression values from the latest stop, with the previous value for those that changed since the stop before",
+      inputSchema: {
+        changedOnly: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Only show watches whose value changed since the previous stop"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        watches: z.array(watchOutput),
+      },
+    },
+    async ({ changedOnly, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const watches = (await session.getWatches()).filter((w) => !changedOnly || watchChanged(w));
+
+      let text: string;
+      if (watches.length > 0) {
+        text = `Watches:\n${watches.map((w) => `  ${formatWatch(w)}`).join("\n")}`;
+      } else if (changedOnly) {
+        text = "No watch values changed since the previous stop";
+      } else {
+        text = "No watch expressions. Use 'add_watch' to add one.";
+      }
+
+      return structuredResponse(`${sessionPrefix(session.id)}${text}`, {
+        sessionId: session.id,
+        watches: watches.map(toWatchOutput),
+      });
+    }
+  );
+
+  // Tool: snapshot_locals
+  server.registerTool(
+    "snapshot_locals",
+    {
+      description:
+        "Capture a named snapshot of all locals and arguments in a frame, expanded to a depth, for later comparison with 'diff_snapshot'",
+      inputSchema: {
+        name: z.string().describe("Snapshot name (an existing snapshot with this name is replaced)"),
+        frameId: z
+          .number()
+          .optional()
+          .describe("Stack frame ID (from stack_trace, defaults to the top frame)"),
+        depth: z
+          .number()
+          .optional()
+          .default(2)
+          .describe("Levels of members to capture below each local (0 = just the locals)"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        name: z.string(),
+        frame: stackFrameOutput,
+        depth: z.number(),
+        valueCount: z.number(),
+        truncated: z.boolean(),
+        snapshots: z.array(z.string()),
+      },
+    },
+    async ({ name, frameId, depth, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const snapshot = await session.takeSnapshot(name, { frameId, depth });
+      const snapshots = session.listSnapshots().map((s) => s.name);
+
+      let text = `Snapshot '${name}': ${snapshot.values.size} values at ${formatStackFrame(snapshot.frame)}`;
+      if (snapshot.truncated) {
+        text += "\n(some large containers were only partly captured)";
+      }
+      text += `\nSnapshots: ${snapshots.join(", ")}`;
+
+      return structuredResponse(`${sessionPrefix(session.id)}${text}`, {
+        sessionId: session.id,
+        name,
+        frame: toStackFrameOutput(snapshot.frame),
+        depth: snapshot.depth,
+        valueCount: snapshot.values.size,
+        truncated: snapshot.truncated,
+        snapshots,
+      });
+    }
+  );
+
+  // Tool: diff_snapshot
+  server.registerTool(
+    "diff_snapshot",
+    {
+      description:
+        "Compare a locals snapshot with another snapshot or with the current state, showing added, removed and changed values by path (e.g. 'order.Items[2].Price: 10 -> 12')",
+      inputSchema: {
+        name: z.string().describe("Snapshot to compare from"),
+        against: z
+          .string()
+          .optional()
+          .describe("Snapshot to compare to (defaults to the current state, captured at the same depth)"),
+        frameId: z
+          .number()
+          .optional()
+          .describe("Frame for the current state when 'against' is omitted (defaults to the top frame)"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        from: z.string(),
+        to: z.string(),
+        added: z.array(z.object({ path: z.string(), value: z.string() })),
+        removed: z.array(z.object({ path: z.string(), value: z.string() })),
+        changed: z.array(z.object({ path: z.string(), from: z.string(), to: z.string() })),
+      },
     },
-    async ({ expression, frameId, sessionId }) => {
+    async ({ name, against, frameId, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
-      const result = await session.evaluate(expression, frameId);
+      const diff = await session.diffSnapshot(name, against, frameId);
 
+      return structuredResponse(`${sessionPrefix(session.id)}${formatSnapshotDiff(diff)}`, {
+        sessionId: session.id,
+        from: diff.from.name,
+        to: diff.to.name,
+        added: diff.added,
+        removed: diff.removed,
+        changed: diff.changed,
+      });
+    }
+  );
+
+  // Tool: inspect
+  server.registerTool(
+    "inspect",
+    {
+      description:
+        "Expand an object graph in one call: evaluates an expression (or takes a variablesReference) and walks its members breadth-first up to a depth and node budget. With trackIdentity, repeated objects and cycles are shown once.",
+      inputSchema: {
+        expression: z.string().optional().describe("Expression to inspect, e.g. 'order'"),
+        variablesReference: z
+          .number()
+          .optional()
+          .describe("Variables reference to inspect instead of an expression"),
+        frameId: z
+          .number()
+          .optional()
+          .describe("Stack frame ID for evaluating the expression (from stack_trace)"),
+        maxDepth: z.number().optional().default(3).describe("Maximum nesting depth to expand"),
+        maxNodes: z.number().optional().default(200).describe("Maximum number of members in total"),
+        maxChildren: z
+          .number()
+          .optional()
+          .default(20)
+          .describe("Maximum members shown per object or collection"),
+        skipStatic: z.boolean().optional().default(true).describe("Hide static members"),
+        skipCompilerGenerated: z
+          .boolean()
+          .optional()
+          .default(true)
+          .describe("Hide compiler-generated members (backing fields, closures)"),
+        trackIdentity: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe(
+            "Detect cycles and the same object reached through different paths (extra evaluations per object). When off, cycles are only cut off by maxDepth"
+          ),
+        format: z.enum(["tree", "json"]).optional().default("tree").describe("Output format"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        nodes: z.array(
+          z.object({
+            name: z.string(),
+            path: z.string(),
+            value: z.string(),
+            type: z.string().optional(),
+            depth: z.number(),
+            hiddenChildren: z.number().optional(),
+            truncated: z.enum(["depth", "budget"]).optional(),
+            repeatOf: z.string().optional(),
+          })
+        ),
+      },
+    },
+    async ({
+      expression,
+      variablesReference,
+      frameId,
+      maxDepth,
+      maxNodes,
+      maxChildren,
+      skipStatic,
+      skipCompilerGenerated,
+      trackIdentity,
+      format,
+      sessionId,
+    }) => {
+      const session = sessionManager.getSession(sessionId);
+      const tree = await inspect(
+        session,
+        { expression, variablesReference },
+        { maxDepth, maxNodes, maxChildren, skipStatic, skipCompilerGenerated, trackIdentity, frameId }
+      );
+
+      const text = format === "json" ? JSON.stringify(toJson(tree), null, 2) : renderTree(tree);
+      return structuredResponse(`${sessionPrefix(session.id)}${text}`, {
+        sessionId: session.id,
+        nodes: flattenTree(tree),
+      });
+    }
+  );
+
+  // Tool: set_variable
+  server.registerTool(
+    "set_variable",
+    {
+      description:
+        "Change the value of a variable while stopped. Identify it by variablesReference + name (from scopes/variables), or by an assignable expression in a frame.",
+      inputSchema: {
+        value: z.string().describe("New value as a C# expression, e.g. '42', '\"text\"', 'null'"),
+        variablesReference: z
+          .number()
+          .optional()
+          .describe("Reference of the scope or object containing the variable"),
+        name: z.string().optional().describe("Variable name within that container"),
+        expression: z
+          .string()
+          .optional()
+          .describe("Assignable expression instead of reference + name, e.g. 'order.Total'"),
+        frameId: z
+          .number()
+          .optional()
+          .describe("Stack frame ID for evaluating the expression (from stack_trace)"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        target: z.string(),
+        value: z.string(),
+        type: z.string().optional(),
+        variablesReference: z.number().optional(),
+      },
+    },
+    async ({ value, variablesReference, name, expression, frameId, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const result = await session.setVariable({ value, variablesReference, name, expression, frameId });
+
+      const target = expression || name || "";
       const type = result.type ? ` (${result.type})` : "";
-      return textResponse(`${sessionPrefix(session.id)}${expression}${type} = ${result.result}`);
+      return structuredResponse(`${sessionPrefix(session.id)}${target}${type} = ${result.value}`, {
+        sessionId: session.id,
+        target,
+        value: result.value,
+        type: result.type,
+        variablesReference: result.variablesReference,
+      });
     }
   );
 
   // Tool: threads
-  server.tool(
+  server.registerTool(
     "threads",
-    "List all threads in the debugged process",
     {
-      sessionId: sessionIdParam,
+      description: "List all threads in the debugged process",
+      inputSchema: {
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        threads: z.array(z.object({ id: z.number(), name: z.string() })),
+      },
     },
     async ({ sessionId }) => {
       const session = sessionManager.getSession(sessionId);
@@ -117,7 +652,239 @@ export function registerInspectionTools(server: McpServer): void {
 
       const lines = threads.map((t) => `  Thread ${t.id}: ${t.name}`);
 
-      return textResponse(`${sessionPrefix(session.id)}Threads:\n${lines.join("\n")}`);
+      return structuredResponse(`${sessionPrefix(session.id)}Threads:\n${lines.join("\n")}`, {
+        sessionId: session.id,
+        threads: threads.map((t) => ({ id: t.id, name: t.name })),
+      });
+    }
+  );
+
+  // Tool: modules
+  server.registerTool(
+    "modules",
+    {
+      description:
+        "List loaded assemblies with path, version, symbol (PDB) status and optimization. Useful when breakpoints don't bind.",
+      inputSchema: {
+        filter: z
+          .string()
+          .optional()
+          .describe("Only show modules whose name or path contains this text (case-insensitive)"),
+        symbolsMissing: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Only show modules whose symbols did not load"),
+        userCodeOnly: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Only show modules the adapter treats as user code"),
+        showSources: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Also list loaded source files matching the filter"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        modules: z.array(
+          z.object({
+            id: z.union([z.number(), z.string()]),
+            name: z.string(),
+            path: z.string().optional(),
+            version: z.string().optional(),
+            symbolStatus: z.string().optional(),
+            symbolFilePath: z.string().optional(),
+            isOptimized: z.boolean().optional(),
+            isUserCode: z.boolean().optional(),
+          })
+        ),
+        sources: z
+          .array(
+            z.object({
+              name: z.string().optional(),
+              path: z.string().optional(),
+              sourceReference: z.number().optional(),
+            })
+          )
+          .optional(),
+      },
+    },
+    async ({ filter, symbolsMissing, userCodeOnly, showSources, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const needle = filter?.toLowerCase();
+
+      const modules = session.listModules().filter((m) => {
+        if (needle && !`${m.name} ${m.path || ""}`.toLowerCase().includes(needle)) return false;
+        if (symbolsMissing && hasSymbols(m)) return false;
+        if (userCodeOnly && m.isUserCode === false) return false;
+        return true;
+      });
+
+      const sources = showSources
+        ? session
+            .listLoadedSources()
+            .filter((src) => !needle || `${src.name || ""} ${src.path || ""}`.toLowerCase().includes(needle))
+        : undefined;
+      const structured = {
+        sessionId: session.id,
+        modules: modules.map((m) => ({
+          id: m.id,
+          name: m.name,
+          path: m.path,
+          version: m.version,
+          symbolStatus: m.symbolStatus,
+          symbolFilePath: m.symbolFilePath,
+          isOptimized: m.isOptimized,
+          isUserCode: m.isUserCode,
+        })),
+        sources: sources?.map((src) => ({ name: src.name, path: src.path, sourceReference: src.sourceReference })),
+      };
+
+      if (modules.length === 0) {
+        return structuredResponse(`${sessionPrefix(session.id)}No matching modules loaded`, structured);
+      }
+
+      let text = `${sessionPrefix(session.id)}Modules (${modules.length}):\n`;
+      text += modules.map(formatModule).join("\n");
+
+      if (sources) {
+        text += `\n\nLoaded sources (${sources.length}):`;
+        for (const src of sources) {
+          text += `\n  ${src.path || src.name || `ref ${src.sourceReference}`}`;
+        }
+      }
+
+      return structuredResponse(text, structured);
+    }
+  );
+
+  // Tool: exception_info
+  server.registerTool(
+    "exception_info",
+    {
+      description:
+        "Get details of the exception the program is stopped on: type, message, inner exceptions and stack trace",
+      inputSchema: {
+        threadId: z.number().optional().describe("Thread ID (defaults to the stopped thread)"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        exceptionId: z.string(),
+        description: z.string().optional(),
+        breakMode: z.string(),
+        exceptions: z.array(
+          z.object({
+            depth: z.number(),
+            typeName: z.string().optional(),
+            message: z.string().optional(),
+            stackTrace: z.string().optional(),
+          })
+        ),
+      },
+    },
+    async ({ threadId, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const info = await session.getExceptionInfo(threadId);
+
+      let text = `${sessionPrefix(session.id)}Exception: ${info.details?.fullTypeName || info.exceptionId}`;
+      text += `\nBreak mode: ${info.breakMode}`;
+      if (info.description) {
+        text += `\nDescription: ${info.description}`;
+      }
+      if (info.details) {
+        text += formatExceptionDetails(info.details, 0);
+      }
+
+      return structuredResponse(text, {
+        sessionId: session.id,
+        exceptionId: info.exceptionId,
+        description: info.description,
+        breakMode: info.breakMode,
+        exceptions: info.details ? flattenExceptionDetails(info.details, 0) : [],
+      });
     }
   );
 }
+
+/**
+ * Format exception details, following the inner exception chain.
+ */
+function formatExceptionDetails(details: ExceptionDetails, depth: number): string {
+  const indent = "  ".repeat(depth);
+  let text = "";
+
+  if (depth > 0) {
+    text += `\n\n${indent}Inner exception: ${details.fullTypeName || details.typeName || "unknown"}`;
+  }
+  if (details.message) {
+    text += `\n${indent}Message: ${details.message}`;
+  }
+  if (details.stackTrace) {
+    const stack = details.stackTrace
+      .split("\n")
+      .map((l) => `${indent}  ${l.trim()}`)
+      .join("\n");
+    text += `\n${indent}Stack trace:\n${stack}`;
+  }
+  for (const inner of details.innerException || []) {
+    text += formatExceptionDetails(inner, depth + 1);
+  }
+
+  return text;
+}
+
+/**
+ * Flatten an exception and its inner exceptions into a list, outermost first.
+ */
+function flattenExceptionDetails(
+  details: ExceptionDetails,
+  depth: number
+): Array<{ depth: number; typeName?: string; message?: string; stackTrace?: string }> {
+  return [
+    {
+      depth,
+      typeName: details.fullTypeName || details.typeName,
+      message: details.message,
+      stackTrace: details.stackTrace,
+    },
+    ...(details.innerException || []).flatMap((inner) => flattenExceptionDetails(inner, depth + 1)),
+  ];
+}
+
+/**
+ * Whether the adapter reports symbols as loaded for a module.
+ */
+function hasSymbols(module: Module): boolean {
+  return !!module.symbolStatus && /loaded/i.test(module.symbolStatus) && !/not|skipped/i.test(module.symbolStatus);
+}
+
+/**
+ * Format a module as a single line: name, version, symbols, flags, path.
+ */
+function formatModule(module: Module): string {
+  const version = module.version ? ` ${module.version}` : "";
+  const symbols = module.symbolStatus || "symbols unknown";
+  const flags: string[] = [];
+  if (module.isOptimized) flags.push("optimized");
+  if (module.isUserCode) flags.push("user code");
+  const flagText = flags.length > 0 ? ` [${flags.join(", ")}]` : "";
+  const location = module.path ? `\n    ${module.path}` : "";
+  return `  ${module.name}${version} (${symbols})${flagText}${location}`;
+}
+
+/**
+ * Format a variable with its reference and child counts when it can be expanded.
+ */
+function formatExpandableVariable(v: Variable): string {
+  const line = formatVariable(v, 0);
+  if (v.variablesReference <= 0) return line;
+
+  const counts: string[] = [];
+  if (v.indexedVariables) counts.push(`${v.indexedVariables} items`);
+  if (v.namedVariables) counts.push(`${v.namedVariables} members`);
+  return `${line} [ref: ${v.variablesReference}${counts.length > 0 ? `, ${counts.join(", ")}` : ""}]`;
+}
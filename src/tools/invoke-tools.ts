@@ -7,45 +7,80 @@ import { z } from "zod";
 import * as path from "path";
 import * as fs from "fs";
 import { sessionManager } from "../session-manager.js";
-import { textResponse } from "./types.js";
+import { structuredResponse, errorResponse } from "./types.js";
 import { sessionPrefix } from "../utils.js";
 import { ensureHarnessBuilt, runHarness, harnessDll } from "../harness.js";
 
 export function registerInvokeTools(server: McpServer): void {
-  server.tool(
+  server.registerTool(
     "invoke",
-    "Invoke a specific method in a .NET assembly. Can run with or without debugging. Use debug mode to set breakpoints and step through the code.",
     {
-      assembly: z.string().describe("Path to the .NET DLL containing the type"),
-      type: z.string().describe("Fully qualified type name (e.g., 'MyApp.Services.Calculator')"),
-      method: z.string().describe("Method name to invoke"),
-      args: z
-        .array(z.any())
-        .optional()
-        .describe("Method arguments as JSON array"),
-      ctorArgs: z
-        .array(z.any())
-        .optional()
-        .describe("Constructor arguments for instance methods"),
-      debug: z
-        .boolean()
-        .optional()
-        .default(false)
-        .describe("Launch under debugger for breakpoint support"),
-      cwd: z
-        .string()
-        .optional()
-        .describe("Working directory for the invocation"),
-      sessionId: z
-        .string()
-        .optional()
-        .describe("Session ID for debug mode (auto-generated if not specified)"),
+      description:
+        "Invoke a specific method in a .NET assembly. Can run with or without debugging. Use debug mode to set breakpoints and step through the code.",
+      inputSchema: {
+        assembly: z.string().describe("Path to the .NET DLL containing the type"),
+        type: z.string().describe("Fully qualified type name (e.g., 'MyApp.Services.Calculator')"),
+        method: z.string().describe("Method name to invoke"),
+        args: z
+          .array(z.any())
+          .optional()
+          .describe("Method arguments as JSON array"),
+        ctorArgs: z
+          .array(z.any())
+          .optional()
+          .describe("Constructor arguments for instance methods"),
+        debug: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Launch under debugger for breakpoint support"),
+        cwd: z
+          .string()
+          .optional()
+          .describe("Working directory for the invocation"),
+        sessionId: z
+          .string()
+          .optional()
+          .describe("Session ID for debug mode (auto-generated if not specified)"),
+      },
+      outputSchema: {
+        mode: z.enum(["debug", "run"]),
+        sessionId: z.string().optional(),
+        success: z.boolean().optional(),
+        method: z.string().optional(),
+        returnType: z.string().optional(),
+        returnValue: z.unknown().optional(),
+        durationMs: z.number().optional(),
+        logs: z
+          .array(z.object({ level: z.string(), message: z.string(), category: z.string().optional() }))
+          .optional(),
+        stdout: z.string().optional(),
+        error: z.string().optional(),
+        errorDetails: z
+          .object({
+            type: z.string().optional(),
+            reason: z.string().optional(),
+            constructors: z.array(z.object({ params: z.array(z.string()) })).optional(),
+            methods: z
+              .array(
+                z.object({
+                  name: z.string(),
+                  params: z.array(z.string()),
+                  returnType: z.string(),
+                  isStatic: z.boolean(),
+                })
+              )
+              .optional(),
+            stackTrace: z.string().optional(),
+          })
+          .optional(),
+      },
     },
     async ({ assembly, type, method, args, ctorArgs, debug, cwd, sessionId }) => {
       // Ensure harness is built
       const buildResult = await ensureHarnessBuilt();
       if (!buildResult.success) {
-        return textResponse(buildResult.error || "Failed to build harness");
+        return errorResponse(buildResult.error || "Failed to build harness");
       }
 
       // Resolve assembly path
@@ -54,7 +89,7 @@ export function registerInvokeTools(server: McpServer): void {
         : path.resolve(cwd || process.cwd(), assembly);
 
       if (!fs.existsSync(resolvedAssembly)) {
-        return textResponse(`Assembly not found: ${resolvedAssembly}`);
+        return errorResponse(`Assembly not found: ${resolvedAssembly}`);
       }
 
       // Build request JSON
@@ -71,7 +106,7 @@ export function registerInvokeTools(server: McpServer): void {
       if (debug) {
         // Launch under debugger in a new session
         const derivedSessionId = sessionId || `invoke-${type.split(".").pop()}-${method}`;
-        const session = sessionManager.createSession(derivedSessionId);
+        const session = await sessionManager.createSession(derivedSessionId);
 
         try {
           await session.launch({
@@ -81,8 +116,9 @@ export function registerInvokeTools(server: McpServer): void {
             stopAtEntry: false,
           });
 
-          return textResponse(
-            `${sessionPrefix(session.id)}Invoking ${type}.${method} under debugger.\nSession ID: ${session.id}\nSet breakpoints in your source files, then use 'continue' to run.\nUse 'output' to see the result when complete.`
+          return structuredResponse(
+            `${sessionPrefix(session.id)}Invoking ${type}.${method} under debugger.\nSession ID: ${session.id}\nSet breakpoints in your source files, then use 'continue' to run.\nUse 'output' to see the result when complete.`,
+            { mode: "debug" as const, sessionId: session.id }
           );
         } catch (err) {
           await sessionManager.removeSession(session.id);
@@ -92,6 +128,18 @@ export function registerInvokeTools(server: McpServer): void {
         // Run directly without debugging
         try {
           const result = await runHarness(requestJson);
+          const structured = {
+            mode: "run" as const,
+            success: result.success,
+            method: result.method,
+            returnType: result.returnType,
+            returnValue: result.returnValue,
+            durationMs: result.durationMs,
+            logs: result.logs,
+            stdout: result.stdout,
+            error: result.error,
+            errorDetails: result.errorDetails,
+          };
 
           if (result.success) {
             let response = `✓ ${result.method}\n`;
@@ -110,7 +158,7 @@ export function registerInvokeTools(server: McpServer): void {
               response += `\nStdout:\n${result.stdout}`;
             }
 
-            return textResponse(response);
+            return structuredResponse(response, structured);
           } else {
             let response = `✗ ${result.error}\n`;
 
@@ -139,10 +187,10 @@ export function registerInvokeTools(server: McpServer): void {
               }
             }
 
-            return textResponse(response);
+            return structuredResponse(response, structured);
           }
         } catch (err) {
-          return textResponse(`Failed to run harness: ${err instanceof Error ? err.message : String(err)}`);
+          return errorResponse(`Failed to run harness: ${err instanceof Error ? err.message : String(err)}`);
         }
       }
     }
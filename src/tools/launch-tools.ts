@@ -5,48 +5,64 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { sessionManager } from "../session-manager.js";
-import { sessionIdParam, textResponse } from "./types.js";
+import { sessionIdParam, transportParam, recordDapParam, structuredResponse, errorResponse } from "./types.js";
+import { TransportConfig } from "../dap-transport.js";
 import { sessionPrefix } from "../utils.js";
 
 export function registerLaunchTools(server: McpServer): void {
   // Tool: launch
-  server.tool(
+  server.registerTool(
     "launch",
-    "Start debugging a .NET application. The program should be the path to a DLL file built with debug symbols.",
     {
-      program: z.string().describe("Path to the .NET DLL to debug"),
-      args: z
-        .array(z.string())
-        .optional()
-        .describe("Command line arguments for the program"),
-      cwd: z
-        .string()
-        .optional()
-        .describe("Working directory for the program"),
-      stopAtEntry: z
-        .boolean()
-        .optional()
-        .default(false)
-        .describe("Stop at the entry point of the program"),
-      env: z
-        .record(z.string())
-        .optional()
-        .describe("Environment variables to pass to the debuggee process"),
-      launchProfile: z
-        .string()
-        .optional()
-        .describe("Name of a launch profile from Properties/launchSettings.json to use for environment variables and URLs"),
-      sessionId: z
-        .string()
-        .optional()
-        .describe("Session ID for this debug session (auto-generated from program name if not specified)"),
+      description:
+        "Start debugging a .NET application. The program should be the path to a DLL file built with debug symbols.",
+      inputSchema: {
+        program: z.string().describe("Path to the .NET DLL to debug"),
+        args: z
+          .array(z.string())
+          .optional()
+          .describe("Command line arguments for the program"),
+        cwd: z
+          .string()
+          .optional()
+          .describe("Working directory for the program"),
+        stopAtEntry: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Stop at the entry point of the program"),
+        env: z
+          .record(z.string())
+          .optional()
+          .describe("Environment variables to pass to the debuggee process"),
+        launchProfile: z
+          .string()
+          .optional()
+          .describe("Name of a launch profile from Properties/launchSettings.json to use for environment variables and URLs"),
+        transport: transportParam,
+        recordDap: recordDapParam,
+        sessionId: z
+          .string()
+          .optional()
+          .describe("Session ID for this debug session (auto-generated from program name if not specified)"),
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        program: z.string(),
+        transport: z.string(),
+        recordingPath: z.string().optional(),
+        capabilities: z.array(z.string()),
+        launchProfile: z.string().optional(),
+        environmentVariables: z.array(z.string()),
+        stopAtEntry: z.boolean(),
+      },
     },
-    async ({ program, args, cwd, stopAtEntry, env, launchProfile, sessionId }) => {
+    async ({ program, args, cwd, stopAtEntry, env, launchProfile, transport, recordDap, sessionId }) => {
       // Derive session ID from program if not specified
       const derivedSessionId = sessionId || sessionManager.deriveSessionIdFromProgram(program);
 
       // Create new session
-      const session = sessionManager.createSession(derivedSessionId);
+      const session = await sessionManager.createSession(derivedSessionId);
 
       try {
         const { capabilities, resolvedEnv } = await session.launch({
@@ -56,11 +72,15 @@ export function registerLaunchTools(server: McpServer): void {
           stopAtEntry,
           env,
           launchProfile,
+          transport,
+          recordDap,
         });
 
         // Build status message
         let statusMsg = `${sessionPrefix(session.id)}Debugger started for: ${program}`;
         statusMsg += `\nSession ID: ${session.id}`;
+        statusMsg += formatTransport(transport);
+        statusMsg += formatRecording(session.getDapRecordingPath());
         statusMsg += `\nCapabilities: ${Object.keys(capabilities).filter((k) => capabilities[k] === true).join(", ")}`;
 
         if (launchProfile) {
@@ -75,7 +95,16 @@ export function registerLaunchTools(server: McpServer): void {
           ? "\nStopped at entry point."
           : "\nProgram is running. Set breakpoints or pause to inspect.";
 
-        return textResponse(statusMsg);
+        return structuredResponse(statusMsg, {
+          sessionId: session.id,
+          program,
+          transport: transport?.type || "stdio",
+          recordingPath: session.getDapRecordingPath() || undefined,
+          capabilities: Object.keys(capabilities).filter((k) => capabilities[k] === true),
+          launchProfile,
+          environmentVariables: Object.keys(resolvedEnv),
+          stopAtEntry,
+        });
       } catch (err) {
         // Clean up failed session
         await sessionManager.removeSession(session.id);
@@ -85,25 +114,43 @@ export function registerLaunchTools(server: McpServer): void {
   );
 
   // Tool: attach
-  server.tool(
+  server.registerTool(
     "attach",
-    "Attach debugger to a running .NET process",
     {
-      processId: z.number().describe("Process ID to attach to"),
-      sessionId: z
-        .string()
-        .optional()
-        .describe("Session ID for this debug session (auto-generated if not specified)"),
+      description: "Attach debugger to a running .NET process",
+      inputSchema: {
+        processId: z.number().describe("Process ID to attach to"),
+        transport: transportParam,
+        recordDap: recordDapParam,
+        sessionId: z
+          .string()
+          .optional()
+          .describe("Session ID for this debug session (auto-generated if not specified)"),
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        processId: z.number(),
+        transport: z.string(),
+        recordingPath: z.string().optional(),
+      },
     },
-    async ({ processId, sessionId }) => {
+    async ({ processId, transport, recordDap, sessionId }) => {
       // Derive session ID if not specified
       const derivedSessionId = sessionId || `process-${processId}`;
 
-      const session = sessionManager.createSession(derivedSessionId);
+      const session = await sessionManager.createSession(derivedSessionId);
 
       try {
-        await session.attach(processId);
-        return textResponse(`${sessionPrefix(session.id)}Attached to process ${processId}\nSession ID: ${session.id}`);
+        await session.attach(processId, transport, recordDap);
+        return structuredResponse(
+          `${sessionPrefix(session.id)}Attached to process ${processId}\nSession ID: ${session.id}${formatTransport(transport)}${formatRecording(session.getDapRecordingPath())}`,
+          {
+            sessionId: session.id,
+            processId,
+            transport: transport?.type || "stdio",
+            recordingPath: session.getDapRecordingPath() || undefined,
+          }
+        );
       } catch (err) {
         await sessionManager.removeSession(session.id);
         throw err;
@@ -112,34 +159,45 @@ export function registerLaunchTools(server: McpServer): void {
   );
 
   // Tool: launch_watch - Hot reload support via dotnet watch
-  server.tool(
+  server.registerTool(
     "launch_watch",
-    "Start debugging with hot reload support using 'dotnet watch'. The debugger will automatically reconnect when the app restarts after code changes.",
     {
-      projectPath: z.string().describe("Path to the .NET project directory (containing .csproj)"),
-      launchProfile: z
-        .string()
-        .optional()
-        .describe("Name of a launch profile from Properties/launchSettings.json"),
-      args: z
-        .array(z.string())
-        .optional()
-        .describe("Additional arguments to pass to dotnet watch"),
-      noHotReload: z
-        .boolean()
-        .optional()
-        .default(false)
-        .describe("Disable in-process hot reload, forcing full restarts on every change. Use this for reliable debugging of async methods."),
-      sessionId: z
-        .string()
-        .optional()
-        .describe("Session ID for this debug session (auto-generated from project name if not specified)"),
+      description:
+        "Start debugging with hot reload support using 'dotnet watch'. The debugger will automatically reconnect when the app restarts after code changes.",
+      inputSchema: {
+        projectPath: z.string().describe("Path to the .NET project directory (containing .csproj)"),
+        launchProfile: z
+          .string()
+          .optional()
+          .describe("Name of a launch profile from Properties/launchSettings.json"),
+        args: z
+          .array(z.string())
+          .optional()
+          .describe("Additional arguments to pass to dotnet watch"),
+        noHotReload: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Disable in-process hot reload, forcing full restarts on every change. Use this for reliable debugging of async methods."),
+        sessionId: z
+          .string()
+          .optional()
+          .describe("Session ID for this debug session (auto-generated from project name if not specified)"),
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        projectPath: z.string(),
+        watchPid: z.number(),
+        childPid: z.number(),
+        launchProfile: z.string().optional(),
+        noHotReload: z.boolean(),
+      },
     },
     async ({ projectPath, launchProfile, args, noHotReload, sessionId }) => {
       // Derive session ID from project path if not specified
       const derivedSessionId = sessionId || sessionManager.deriveSessionIdFromPath(projectPath);
 
-      const session = sessionManager.createSession(derivedSessionId);
+      const session = await sessionManager.createSession(derivedSessionId);
 
       try {
         const { watchPid, childPid } = await session.launchWatch({
@@ -163,36 +221,71 @@ export function registerLaunchTools(server: McpServer): void {
         statusMsg += `\n\nThe debugger will automatically reconnect when the app restarts after code changes.`;
         statusMsg += `\nUse 'stop_watch' to stop hot reload mode.`;
 
-        return textResponse(statusMsg);
+        return structuredResponse(statusMsg, {
+          sessionId: session.id,
+          projectPath,
+          watchPid,
+          childPid,
+          launchProfile,
+          noHotReload,
+        });
       } catch (err) {
         await sessionManager.removeSession(session.id);
-        return textResponse(`Failed to start watch mode: ${err instanceof Error ? err.message : String(err)}`);
+        return errorResponse(`Failed to start watch mode: ${err instanceof Error ? err.message : String(err)}`);
       }
     }
   );
 
   // Tool: stop_watch - Stop hot reload mode
-  server.tool(
+  server.registerTool(
     "stop_watch",
-    "Stop hot reload debugging mode and terminate the dotnet watch process",
     {
-      sessionId: sessionIdParam,
+      description: "Stop hot reload debugging mode and terminate the dotnet watch process",
+      inputSchema: {
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+      },
     },
     async ({ sessionId }) => {
       try {
         const session = sessionManager.getSession(sessionId);
 
         if (!session.isWatchMode()) {
-          return textResponse(`${sessionPrefix(session.id)}Session is not in watch mode`);
+          return errorResponse(`${sessionPrefix(session.id)}Session is not in watch mode`);
         }
 
         await session.stopWatch();
         await sessionManager.removeSession(session.id);
 
-        return textResponse(`${sessionPrefix(session.id)}Hot reload debugging stopped`);
+        return structuredResponse(`${sessionPrefix(session.id)}Hot reload debugging stopped`, {
+          sessionId: session.id,
+        });
       } catch (err) {
-        return textResponse(`Error: ${err instanceof Error ? err.message : String(err)}`);
+        return errorResponse(`Error: ${err instanceof Error ? err.message : String(err)}`);
       }
     }
   );
 }
+
+/**
+ * Describe a non-default adapter transport for launch/attach responses.
+ */
+function formatTransport(transport?: TransportConfig): string {
+  if (!transport || transport.type === "stdio") return "";
+  if (transport.type === "tcp") {
+    return `\nAdapter: tcp://${transport.host || "127.0.0.1"}:${transport.port}`;
+  }
+  if (transport.type === "replay") {
+    return `\nAdapter: replaying ${transport.file}`;
+  }
+  return `\nAdapter: via ${[transport.pipeProgram, ...(transport.pipeArgs || [])].join(" ")}`;
+}
+
+/**
+ * Describe where DAP traffic is being recorded, if anywhere.
+ */
+function formatRecording(recordingPath: string | null): string {
+  return recordingPath ? `\nRecording DAP traffic to: ${recordingPath}` : "";
+}
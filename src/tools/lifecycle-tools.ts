@@ -5,16 +5,22 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { sessionManager } from "../session-manager.js";
-import { sessionIdParam, textResponse } from "./types.js";
-import { sessionPrefix } from "../utils.js";
+import { sessionIdParam, structuredResponse, errorResponse } from "./types.js";
+import { breakpointStateOutput, toBreakpointStateOutput } from "./output-schemas.js";
+import { sessionPrefix, formatBreakpointOptions, formatBreakpointState } from "../utils.js";
 
 export function registerLifecycleTools(server: McpServer): void {
   // Tool: terminate
-  server.tool(
+  server.registerTool(
     "terminate",
-    "Stop the debug session and terminate the debugged program",
     {
-      sessionId: sessionIdParam,
+      description: "Stop the debug session and terminate the debugged program",
+      inputSchema: {
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+      },
     },
     async ({ sessionId }) => {
       try {
@@ -23,33 +29,49 @@ export function registerLifecycleTools(server: McpServer): void {
 
         await sessionManager.removeSession(id);
 
-        return textResponse(`Debug session '${id}' terminated`);
+        return structuredResponse(`Debug session '${id}' terminated`, { sessionId: id });
       } catch (err) {
-        return textResponse(`Error: ${err instanceof Error ? err.message : String(err)}`);
+        return errorResponse(`Error: ${err instanceof Error ? err.message : String(err)}`);
       }
     }
   );
 
   // Tool: restart
-  server.tool(
+  server.registerTool(
     "restart",
-    "Restart the debugged program using the same launch settings. Useful after code changes.",
     {
-      rebuild: z.boolean().optional().default(false).describe("Run 'dotnet build' before restarting (for code changes)"),
-      sessionId: sessionIdParam,
+      description:
+        "Restart the debugged program using the same launch settings. Useful after code changes. Breakpoints (with their conditions), exception settings and watches are kept and sent again before the program starts.",
+      inputSchema: {
+        rebuild: z.boolean().optional().default(false).describe("Run 'dotnet build' before restarting (for code changes)"),
+        verifyTimeoutMs: z
+          .number()
+          .optional()
+          .default(5000)
+          .describe("How long to wait for breakpoints to be verified before reporting them"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        program: z.string(),
+        rebuilt: z.boolean(),
+        launchProfile: z.string().optional(),
+        breakpoints: z.array(z.object({ file: z.string(), line: z.number(), state: breakpointStateOutput })),
+        functionBreakpoints: z.array(z.object({ name: z.string(), state: breakpointStateOutput })),
+      },
     },
-    async ({ rebuild, sessionId }) => {
+    async ({ rebuild, verifyTimeoutMs, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
       const config = session.getConfig();
 
       if (!config || config.mode !== "launch") {
-        return textResponse(
+        return errorResponse(
           `${sessionPrefix(session.id)}Cannot restart - session is not in launch mode. Use 'launch' to start a debug session.`
         );
       }
 
       try {
-        await session.restart(rebuild);
+        const reapplied = await session.restart(rebuild, verifyTimeoutMs);
 
         let statusMsg = `${sessionPrefix(session.id)}Restarted: ${config.program}`;
         if (rebuild) {
@@ -58,11 +80,42 @@ export function registerLifecycleTools(server: McpServer): void {
         if (config.launchProfile) {
           statusMsg += `\nUsing launch profile: ${config.launchProfile}`;
         }
+
+        const formatted = [
+          ...reapplied.breakpoints.map(
+            ({ file, spec, breakpoint }) =>
+              `  ${file}:${spec.line}${formatBreakpointOptions(spec)} ${formatBreakpointState(breakpoint)}`
+          ),
+          ...reapplied.functionBreakpoints.map(
+            ({ spec, breakpoint }) =>
+              `  function ${spec.name}${formatBreakpointOptions(spec)} ${formatBreakpointState(breakpoint)}`
+          ),
+        ];
+        if (formatted.length > 0) {
+          const verified = [...reapplied.breakpoints, ...reapplied.functionBreakpoints].filter(
+            (e) => e.breakpoint.verified
+          ).length;
+          statusMsg += `\nBreakpoints re-applied (${verified} of ${formatted.length} verified):\n${formatted.join("\n")}`;
+        }
         statusMsg += "\nProgram is running. Set breakpoints or pause to inspect.";
 
-        return textResponse(statusMsg);
+        return structuredResponse(statusMsg, {
+          sessionId: session.id,
+          program: config.program,
+          rebuilt: rebuild,
+          launchProfile: config.launchProfile,
+          breakpoints: reapplied.breakpoints.map(({ file, spec, breakpoint }) => ({
+            file,
+            line: spec.line,
+            state: toBreakpointStateOutput(breakpoint),
+          })),
+          functionBreakpoints: reapplied.functionBreakpoints.map(({ spec, breakpoint }) => ({
+            name: spec.name,
+            state: toBreakpointStateOutput(breakpoint),
+          })),
+        });
       } catch (err) {
-        return textResponse(
+        return errorResponse(
           `${sessionPrefix(session.id)}Restart failed: ${err instanceof Error ? err.message : String(err)}`
         );
       }
@@ -0,0 +1,257 @@
+/**
+ * Output schemas for structured tool results
+ *
+ * Tools return their text for humans plus the same data as structured
+ * content, so automation doesn't have to parse the text. These are the
+ * shapes shared between tools, with converters from session/DAP objects.
+ */
+
+import { z } from "zod";
+import { StackFrame, Variable, Breakpoint, AdapterHealth } from "../dap-client.js";
+import {
+  StopInfo,
+  ExitInfo,
+  StopLocation,
+  BreakpointStateChange,
+  BreakpointHit,
+  SessionStatus,
+  WatchExpression,
+  WatchValue,
+} from "../session.js";
+import { FinishedSessionInfo } from "../session-manager.js";
+import { watchChanged } from "../utils.js";
+
+export const stackFrameOutput = z.object({
+  id: z.number(),
+  name: z.string(),
+  file: z.string().optional(),
+  sourceName: z.string().optional(),
+  sourceReference: z.number().optional(),
+  line: z.number(),
+  column: z.number(),
+});
+
+export const variableOutput = z.object({
+  name: z.string(),
+  value: z.string(),
+  type: z.string().optional(),
+  evaluateName: z.string().optional(),
+  variablesReference: z.number(),
+  namedVariables: z.number().optional(),
+  indexedVariables: z.number().optional(),
+});
+
+export const breakpointStateOutput = z.object({
+  verified: z.boolean(),
+  line: z.number().optional(),
+  message: z.string().optional(),
+});
+
+export const breakpointHistoryOutput = z.array(
+  z.object({
+    time: z.string(),
+    verified: z.boolean(),
+    line: z.number().optional(),
+    message: z.string().optional(),
+    source: z.enum(["set", "event"]),
+  })
+);
+
+export const breakpointHitOutput = z.object({
+  time: z.string(),
+  threadId: z.number().optional(),
+});
+
+export const sourceContextOutput = z.object({
+  path: z.string().optional(),
+  sourceReference: z.number().optional(),
+  line: z.number(),
+  lines: z.array(
+    z.object({
+      line: z.number(),
+      text: z.string(),
+      current: z.boolean(),
+      breakpoint: z.enum(["verified", "pending"]).optional(),
+    })
+  ),
+});
+
+export const stopInfoOutput = z.object({
+  event: z.enum(["stopped", "exited", "terminated", "timeout"]),
+  reason: z.string().optional(),
+  description: z.string().optional(),
+  threadId: z.number().optional(),
+  hitBreakpointIds: z.array(z.number()).optional(),
+  exitCode: z.number().optional(),
+  frame: stackFrameOutput.optional(),
+  locals: z.array(variableOutput).optional(),
+  totalLocals: z.number().optional(),
+});
+
+export const stopLocationOutput = z.object({
+  reason: z.string(),
+  threadId: z.number().optional(),
+  frame: stackFrameOutput.optional(),
+  time: z.string(),
+});
+
+export const exitInfoOutput = z.object({
+  exitCode: z.number().optional(),
+  exitTime: z.string(),
+  lastStop: stopLocationOutput.optional(),
+  outputTail: z.array(z.string()),
+  unhandledException: z.string().optional(),
+});
+
+export const adapterHealthOutput = z.object({
+  state: z.enum(["healthy", "unresponsive"]),
+  consecutiveTimeouts: z.number(),
+  lastTimeout: z
+    .object({
+      command: z.string(),
+      at: z.string(),
+    })
+    .optional(),
+});
+
+export const sessionStatusOutput = z.object({
+  state: z.enum(["running", "stopped", "reconnecting", "terminated"]),
+  stoppedReason: z.string().optional(),
+  stoppedThreadId: z.number().optional(),
+  processId: z.number().optional(),
+  uptime: z.number(),
+  breakpointCount: z.number(),
+  outputLineCount: z.number(),
+  adapterHealth: adapterHealthOutput.optional(),
+  exit: exitInfoOutput.optional(),
+});
+
+export const finishedSessionOutput = z.object({
+  id: z.string(),
+  mode: z.enum(["launch", "attach", "watch"]),
+  program: z.string(),
+  finishedAt: z.string(),
+  exit: exitInfoOutput,
+});
+
+const watchValueOutput = z.object({
+  value: z.string().optional(),
+  type: z.string().optional(),
+  error: z.string().optional(),
+  time: z.string(),
+});
+
+export const watchOutput = z.object({
+  id: z.number(),
+  expression: z.string(),
+  current: watchValueOutput.optional(),
+  previous: watchValueOutput.optional(),
+  changed: z.boolean(),
+});
+
+export function toStackFrameOutput(frame: StackFrame): z.infer<typeof stackFrameOutput> {
+  return {
+    id: frame.id,
+    name: frame.name,
+    file: frame.source?.path,
+    sourceName: frame.source?.name,
+    sourceReference: frame.source?.sourceReference || undefined,
+    line: frame.line,
+    column: frame.column,
+  };
+}
+
+export function toVariableOutput(v: Variable): z.infer<typeof variableOutput> {
+  return {
+    name: v.name,
+    value: v.value,
+    type: v.type,
+    evaluateName: v.evaluateName,
+    variablesReference: v.variablesReference,
+    namedVariables: v.namedVariables,
+    indexedVariables: v.indexedVariables,
+  };
+}
+
+export function toBreakpointStateOutput(bp: Breakpoint): z.infer<typeof breakpointStateOutput> {
+  return { verified: bp.verified, line: bp.line, message: bp.message };
+}
+
+export function toBreakpointHistoryOutput(
+  history: BreakpointStateChange[]
+): z.infer<typeof breakpointHistoryOutput> {
+  return history.map((h) => ({ ...h, time: h.time.toISOString() }));
+}
+
+export function toBreakpointHitOutput(hit: BreakpointHit): z.infer<typeof breakpointHitOutput> {
+  return { time: hit.time.toISOString(), threadId: hit.threadId };
+}
+
+export function toAdapterHealthOutput(health: AdapterHealth): z.infer<typeof adapterHealthOutput> {
+  return {
+    state: health.state,
+    consecutiveTimeouts: health.consecutiveTimeouts,
+    lastTimeout: health.lastTimeout
+      ? { command: health.lastTimeout.command, at: health.lastTimeout.at.toISOString() }
+      : undefined,
+  };
+}
+
+export function toStopInfoOutput(info: StopInfo): z.infer<typeof stopInfoOutput> {
+  return {
+    ...info,
+    frame: info.frame ? toStackFrameOutput(info.frame) : undefined,
+    locals: info.locals?.map(toVariableOutput),
+  };
+}
+
+function toStopLocationOutput(stop: StopLocation): z.infer<typeof stopLocationOutput> {
+  return {
+    reason: stop.reason,
+    threadId: stop.threadId,
+    frame: stop.frame ? toStackFrameOutput(stop.frame) : undefined,
+    time: stop.time.toISOString(),
+  };
+}
+
+export function toExitInfoOutput(exit: ExitInfo): z.infer<typeof exitInfoOutput> {
+  return {
+    exitCode: exit.exitCode,
+    exitTime: exit.exitTime.toISOString(),
+    lastStop: exit.lastStop ? toStopLocationOutput(exit.lastStop) : undefined,
+    outputTail: exit.outputTail,
+    unhandledException: exit.unhandledException,
+  };
+}
+
+export function toSessionStatusOutput(status: SessionStatus): z.infer<typeof sessionStatusOutput> {
+  return {
+    ...status,
+    adapterHealth: status.adapterHealth ? toAdapterHealthOutput(status.adapterHealth) : undefined,
+    exit: status.exit ? toExitInfoOutput(status.exit) : undefined,
+  };
+}
+
+export function toFinishedSessionOutput(finished: FinishedSessionInfo): z.infer<typeof finishedSessionOutput> {
+  return {
+    id: finished.id,
+    mode: finished.mode,
+    program: finished.program,
+    finishedAt: finished.finishedAt.toISOString(),
+    exit: toExitInfoOutput(finished.exit),
+  };
+}
+
+function toWatchValueOutput(value: WatchValue): z.infer<typeof watchValueOutput> {
+  return { ...value, time: value.time.toISOString() };
+}
+
+export function toWatchOutput(watch: WatchExpression): z.infer<typeof watchOutput> {
+  return {
+    id: watch.id,
+    expression: watch.expression,
+    current: watch.current ? toWatchValueOutput(watch.current) : undefined,
+    previous: watch.previous ? toWatchValueOutput(watch.previous) : undefined,
+    changed: watchChanged(watch),
+  };
+}
@@ -1,67 +1,189 @@
 /**
- * Session management tools - list, select, terminate sessions
+ * Session management tools - list, select, terminate sessions, session history
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { sessionManager } from "../session-manager.js";
-import { textResponse } from "./types.js";
+import { structuredResponse, errorResponse } from "./types.js";
+import {
+  sessionStatusOutput,
+  finishedSessionOutput,
+  toSessionStatusOutput,
+  toFinishedSessionOutput,
+} from "./output-schemas.js";
+import { formatAdapterHealth, formatExitInfo } from "../utils.js";
 
 export function registerSessionTools(server: McpServer): void {
   // Tool: list_sessions
-  server.tool(
+  server.registerTool(
     "list_sessions",
-    "List all active debug sessions with their status",
-    {},
+    {
+      description: "List all active debug sessions with their status",
+      inputSchema: {},
+      outputSchema: {
+        sessions: z.array(
+          z.object({
+            id: z.string(),
+            isDefault: z.boolean(),
+            mode: z.enum(["launch", "attach", "watch"]),
+            program: z.string(),
+            status: sessionStatusOutput,
+          })
+        ),
+        finished: z.array(finishedSessionOutput),
+      },
+    },
     async () => {
       const sessions = sessionManager.listSessions();
+      const finished = sessionManager.listFinishedSessions();
+      const structured = {
+        sessions: sessions.map((s) => ({
+          id: s.id,
+          isDefault: s.isDefault,
+          mode: s.mode,
+          program: s.program,
+          status: toSessionStatusOutput(s.status),
+        })),
+        finished: finished.map(toFinishedSessionOutput),
+      };
+
+      let finishedText = "";
+      if (finished.length > 0) {
+        finishedText = `\n\nRecently finished (use 'session_history' for details):\n`;
+        finishedText += finished
+          .map((f) => `${f.id}: ${f.mode} - ${f.program} [exit code ${f.exit.exitCode ?? "unknown"} at ${f.finishedAt.toLocaleTimeString()}]`)
+          .join("\n");
+      }
 
       if (sessions.length === 0) {
-        return textResponse("No active debug sessions. Use 'launch' or 'launch_watch' to start one.");
+        return structuredResponse(
+          `No active debug sessions. Use 'launch' or 'launch_watch' to start one.${finishedText}`,
+          structured
+        );
       }
 
       const lines = sessions.map((s) => {
         const defaultMarker = s.isDefault ? " (default)" : "";
         const status = s.status.state;
-        const info = s.status.stoppedReason ? ` - ${s.status.stoppedReason}` : "";
-        return `${s.id}${defaultMarker}: ${s.mode} - ${s.program} [${status}${info}]`;
+        const info = s.status.exit
+          ? ` - exit code ${s.status.exit.exitCode ?? "unknown"}`
+          : s.status.stoppedReason
+            ? ` - ${s.status.stoppedReason}`
+            : "";
+        const healthWarning = formatAdapterHealth(s.status.adapterHealth, s.mode);
+        const health = healthWarning ? `\n  ${healthWarning}` : "";
+        return `${s.id}${defaultMarker}: ${s.mode} - ${s.program} [${status}${info}]${health}`;
       });
 
-      return textResponse(`Active Sessions:\n${lines.join("\n")}`);
+      return structuredResponse(`Active Sessions:\n${lines.join("\n")}${finishedText}`, structured);
     }
   );
 
   // Tool: select_session
-  server.tool(
+  server.registerTool(
     "select_session",
-    "Set the default session for subsequent commands",
     {
-      sessionId: z.string().describe("Session ID to make default"),
+      description: "Set the default session for subsequent commands",
+      inputSchema: {
+        sessionId: z.string().describe("Session ID to make default"),
+      },
+      outputSchema: {
+        sessionId: z.string(),
+      },
     },
     async ({ sessionId }) => {
       try {
         sessionManager.setDefaultSession(sessionId);
-        return textResponse(`Default session set to: ${sessionId}`);
+        return structuredResponse(`Default session set to: ${sessionId}`, { sessionId });
       } catch (err) {
-        return textResponse(`Error: ${err instanceof Error ? err.message : String(err)}`);
+        return errorResponse(`Error: ${err instanceof Error ? err.message : String(err)}`);
       }
     }
   );
 
   // Tool: terminate_session
-  server.tool(
+  server.registerTool(
     "terminate_session",
-    "Terminate a specific debug session",
     {
-      sessionId: z.string().describe("Session ID to terminate"),
+      description: "Terminate a specific debug session",
+      inputSchema: {
+        sessionId: z.string().describe("Session ID to terminate"),
+      },
+      outputSchema: {
+        sessionId: z.string(),
+      },
     },
     async ({ sessionId }) => {
       try {
         await sessionManager.removeSession(sessionId);
-        return textResponse(`Session '${sessionId}' terminated`);
+        return structuredResponse(`Session '${sessionId}' terminated`, { sessionId });
       } catch (err) {
-        return textResponse(`Error: ${err instanceof Error ? err.message : String(err)}`);
+        return errorResponse(`Error: ${err instanceof Error ? err.message : String(err)}`);
       }
     }
   );
+
+  // Tool: session_history
+  server.registerTool(
+    "session_history",
+    {
+      description:
+        "Show recently finished sessions with exit code, last stop location, output tail and unhandled exception text",
+      inputSchema: {
+        sessionId: z.string().optional().describe("Only show this finished session"),
+        limit: z
+          .number()
+          .optional()
+          .describe("Change how many finished sessions are kept"),
+        clear: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe("Forget all finished sessions"),
+      },
+      outputSchema: {
+        cleared: z.number().optional(),
+        historyLimit: z.number(),
+        sessions: z.array(finishedSessionOutput),
+      },
+    },
+    async ({ sessionId, limit, clear }) => {
+      if (clear) {
+        const count = sessionManager.clearFinishedSessions();
+        return structuredResponse(`Cleared ${count} finished session(s)`, {
+          cleared: count,
+          historyLimit: sessionManager.getFinishedHistoryLimit(),
+          sessions: [],
+        });
+      }
+
+      let prefix = "";
+      if (limit !== undefined) {
+        sessionManager.setFinishedHistoryLimit(limit);
+        prefix = `Keeping up to ${sessionManager.getFinishedHistoryLimit()} finished sessions\n\n`;
+      }
+
+      const finished = sessionManager
+        .listFinishedSessions()
+        .filter((f) => !sessionId || f.id === sessionId);
+      const structured = {
+        historyLimit: sessionManager.getFinishedHistoryLimit(),
+        sessions: finished.map(toFinishedSessionOutput),
+      };
+
+      if (finished.length === 0) {
+        return structuredResponse(
+          `${prefix}No finished sessions${sessionId ? ` with ID '${sessionId}'` : ""}`,
+          structured
+        );
+      }
+
+      const sections = finished.map(
+        (f) => `${f.id}: ${f.mode} - ${f.program} (finished ${f.finishedAt.toLocaleString()})\n${formatExitInfo(f.exit)}`
+      );
+
+      return structuredResponse(`${prefix}${sections.join("\n\n")}`, structured);
+    }
+  );
 }
@@ -1,44 +1,93 @@
 /**
- * Status and output tools - output, status
+ * Status and output tools - output, status, dap_log, capabilities
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { sessionManager } from "../session-manager.js";
-import { sessionIdParam, textResponse } from "./types.js";
-import { sessionPrefix, checkCodeStaleness } from "../utils.js";
+import { sessionIdParam, structuredResponse } from "./types.js";
+import {
+  sessionStatusOutput,
+  finishedSessionOutput,
+  toSessionStatusOutput,
+  toFinishedSessionOutput,
+} from "./output-schemas.js";
+import { DAPTrafficEntry } from "../dap-recorder.js";
+import { CAPABILITY_TOOLS } from "../capabilities.js";
+import { DAPEvent, DAPMessage, DAPRequest, DAPResponse } from "../dap-client.js";
+import { sessionPrefix, checkCodeStaleness, formatAdapterHealth, formatExitInfo } from "../utils.js";
+
+// Longest payload shown per DAP message by dap_log
+const MAX_PAYLOAD_CHARS = 200;
 
 export function registerStatusTools(server: McpServer): void {
   // Tool: output
-  server.tool(
+  server.registerTool(
     "output",
-    "Get recent program output (stdout/stderr)",
     {
-      lines: z
-        .number()
-        .optional()
-        .default(20)
-        .describe("Number of recent lines to return"),
-      sessionId: sessionIdParam,
+      description: "Get recent program output (stdout/stderr). Logpoint hits are tagged with [logpoint File.cs:line].",
+      inputSchema: {
+        lines: z
+          .number()
+          .optional()
+          .default(20)
+          .describe("Number of recent lines to return"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        lines: z.array(z.string()),
+      },
     },
     async ({ lines, sessionId }) => {
       const session = sessionManager.getSession(sessionId);
       const output = session.getOutput(lines);
+      const structured = { sessionId: session.id, lines: output };
 
       if (output.length === 0) {
-        return textResponse(`${sessionPrefix(session.id)}No output captured yet`);
+        return structuredResponse(`${sessionPrefix(session.id)}No output captured yet`, structured);
       }
 
-      return textResponse(`${sessionPrefix(session.id)}Program output:\n${output.join("")}`);
+      return structuredResponse(`${sessionPrefix(session.id)}Program output:\n${output.join("")}`, structured);
     }
   );
 
   // Tool: status
-  server.tool(
+  server.registerTool(
     "status",
-    "Get current debugger status (running, stopped, etc.)",
     {
-      sessionId: sessionIdParam,
+      description: "Get current debugger status (running, stopped, etc.)",
+      inputSchema: {
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string().optional(),
+        status: sessionStatusOutput.optional(),
+        finished: finishedSessionOutput.optional(),
+        config: z
+          .object({
+            mode: z.enum(["launch", "attach", "watch"]),
+            program: z.string(),
+            launchProfile: z.string().optional(),
+            transport: z.string(),
+            processId: z.number().optional(),
+            cwd: z.string().optional(),
+            environmentVariables: z.array(z.string()),
+          })
+          .optional(),
+        recordingPath: z.string().optional(),
+        exceptionBreakpoints: z
+          .object({ filters: z.array(z.string()), exceptionTypes: z.array(z.string()) })
+          .optional(),
+        watch: z
+          .object({
+            watchPid: z.number().optional(),
+            childPid: z.number().optional(),
+            reconnecting: z.boolean(),
+          })
+          .optional(),
+        staleCodeWarning: z.string().optional(),
+      },
     },
     async ({ sessionId }) => {
       // If no sessionId provided and no sessions exist, show general status
@@ -50,7 +99,20 @@ export function registerStatusTools(server: McpServer): void {
           text += `\n\n${staleness.message}`;
         }
 
-        return textResponse(text);
+        return structuredResponse(text, {
+          staleCodeWarning: staleness.stale ? staleness.message : undefined,
+        });
+      }
+
+      // Fall back to the finished-session history for sessions that are gone
+      const finished = sessionId && !sessionManager.hasSession(sessionId)
+        ? sessionManager.getFinishedSession(sessionId)
+        : null;
+      if (finished) {
+        return structuredResponse(
+          `Session '${finished.id}' finished at ${finished.finishedAt.toLocaleString()}\nMode: ${finished.mode}\nProgram: ${finished.program}\n${formatExitInfo(finished.exit)}`,
+          { sessionId: finished.id, finished: toFinishedSessionOutput(finished) }
+        );
       }
 
       const session = sessionManager.getSession(sessionId);
@@ -60,16 +122,29 @@ export function registerStatusTools(server: McpServer): void {
 
       let statusText = `${sessionPrefix(session.id)}Status: ${status.state}`;
 
-      if (status.stoppedReason) {
+      if (status.exit) {
+        statusText += ` (debuggee exited)\n${formatExitInfo(status.exit, 5)}\n`;
+      } else if (status.stoppedReason) {
         statusText += ` (${status.stoppedReason})`;
         if (status.stoppedThreadId) {
           statusText += ` on thread ${status.stoppedThreadId}`;
         }
       }
 
+      const healthWarning = formatAdapterHealth(status.adapterHealth, config?.mode);
+      if (healthWarning) {
+        statusText += `\n${healthWarning}`;
+      }
+
       statusText += `\nBreakpoints: ${status.breakpointCount}`;
       statusText += `\nOutput lines buffered: ${status.outputLineCount}`;
 
+      const exceptionBps = session.getExceptionBreakpoints();
+      if (exceptionBps) {
+        const parts = [...exceptionBps.filters, ...exceptionBps.exceptionTypes];
+        statusText += `\nBreaking on exceptions: ${parts.join(", ")}`;
+      }
+
       if (config) {
         statusText += `\n\nSession Info:`;
         statusText += `\n  ID: ${session.id}`;
@@ -78,6 +153,13 @@ export function registerStatusTools(server: McpServer): void {
         if (config.launchProfile) {
           statusText += `\n  Launch Profile: ${config.launchProfile}`;
         }
+        if (config.transport && config.transport.type !== "stdio") {
+          statusText += `\n  Adapter Transport: ${config.transport.type}`;
+        }
+        const recordingPath = session.getDapRecordingPath();
+        if (recordingPath) {
+          statusText += `\n  DAP Recording: ${recordingPath}`;
+        }
         if (config.processId) {
           statusText += `\n  Process ID: ${config.processId}`;
         }
@@ -104,7 +186,214 @@ export function registerStatusTools(server: McpServer): void {
         statusText += `\n\n${staleness.message}`;
       }
 
-      return textResponse(statusText);
+      return structuredResponse(statusText, {
+        sessionId: session.id,
+        status: toSessionStatusOutput(status),
+        config: config
+          ? {
+              mode: config.mode,
+              program: config.program,
+              launchProfile: config.launchProfile,
+              transport: config.transport?.type || "stdio",
+              processId: config.processId,
+              cwd: config.cwd,
+              environmentVariables: Object.keys(config.resolvedEnv),
+            }
+          : undefined,
+        recordingPath: session.getDapRecordingPath() || undefined,
+        exceptionBreakpoints: exceptionBps || undefined,
+        watch: watchState
+          ? {
+              watchPid: watchState.watchProcess.pid,
+              childPid: watchState.lastChildPid ?? undefined,
+              reconnecting: watchState.reconnecting,
+            }
+          : undefined,
+        staleCodeWarning: staleness.stale ? staleness.message : undefined,
+      });
+    }
+  );
+
+  // Tool: capabilities
+  server.registerTool(
+    "capabilities",
+    {
+      description: "List what the session's debug adapter supports and which tools depend on each capability",
+      inputSchema: {
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        capabilities: z.array(
+          z.object({
+            name: z.string(),
+            feature: z.string(),
+            supported: z.boolean(),
+            tools: z.array(z.string()),
+          })
+        ),
+        exceptionFilters: z.array(
+          z.object({ filter: z.string(), label: z.string(), default: z.boolean().optional() })
+        ),
+        other: z.array(z.string()),
+      },
+    },
+    async ({ sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const capabilities = session.getCapabilities();
+
+      const lines = CAPABILITY_TOOLS.map((c) => {
+        const mark = capabilities[c.name] ? "✓" : "✗";
+        return `  ${mark} ${c.feature} (${c.name})\n      ${c.tools.join(", ")}`;
+      });
+
+      let text = `${sessionPrefix(session.id)}Adapter capabilities:\n${lines.join("\n")}`;
+
+      const filters = capabilities.exceptionBreakpointFilters || [];
+      if (filters.length > 0) {
+        text += `\n\nException filters (set_exception_breakpoints):`;
+        for (const f of filters) {
+          text += `\n  ${f.filter} - ${f.label}${f.default ? " (default)" : ""}`;
+        }
+      }
+
+      const known = new Set<string>(CAPABILITY_TOOLS.map((c) => c.name));
+      const other = Object.keys(capabilities).filter((k) => !known.has(k) && capabilities[k] === true);
+      if (other.length > 0) {
+        text += `\n\nOther capabilities: ${other.join(", ")}`;
+      }
+
+      return structuredResponse(text, {
+        sessionId: session.id,
+        capabilities: CAPABILITY_TOOLS.map((c) => ({
+          name: c.name,
+          feature: c.feature,
+          supported: !!capabilities[c.name],
+          tools: c.tools,
+        })),
+        exceptionFilters: filters.map((f) => ({ filter: f.filter, label: f.label, default: f.default })),
+        other,
+      });
+    }
+  );
+
+  // Tool: dap_log
+  server.registerTool(
+    "dap_log",
+    {
+      description: "Show recent raw DAP traffic (requests, responses, events) between the server and the debug adapter",
+      inputSchema: {
+        count: z
+          .number()
+          .optional()
+          .default(30)
+          .describe("Number of recent messages to show"),
+        sessionId: sessionIdParam,
+      },
+      outputSchema: {
+        sessionId: z.string(),
+        entries: z.array(
+          z.object({
+            time: z.string(),
+            direction: z.enum(["out", "in"]),
+            type: z.string(),
+            seq: z.number(),
+            command: z.string().optional(),
+            event: z.string().optional(),
+            requestSeq: z.number().optional(),
+            success: z.boolean().optional(),
+            message: z.string().optional(),
+            payload: z.string().optional().describe(`Arguments or body as JSON, cut to ${MAX_PAYLOAD_CHARS} characters`),
+          })
+        ),
+        recordingPath: z.string().optional(),
+      },
+    },
+    async ({ count, sessionId }) => {
+      const session = sessionManager.getSession(sessionId);
+      const entries = session.getDapLog(count);
+      const recordingPath = session.getDapRecordingPath();
+      const structured = {
+        sessionId: session.id,
+        entries: entries.map(toTrafficEntryOutput),
+        recordingPath: recordingPath || undefined,
+      };
+
+      if (entries.length === 0) {
+        return structuredResponse(`${sessionPrefix(session.id)}No DAP traffic recorded yet`, structured);
+      }
+
+      let text = `${sessionPrefix(session.id)}DAP traffic (last ${entries.length}):\n`;
+      text += entries.map(formatTrafficEntry).join("\n");
+
+      if (recordingPath) {
+        text += `\n\nFull recording: ${recordingPath}`;
+      }
+
+      return structuredResponse(text, structured);
     }
   );
 }
+
+/**
+ * Format one DAP message as a single log line, truncating large payloads.
+ */
+function formatTrafficEntry(entry: DAPTrafficEntry): string {
+  const time = entry.time.substring(11, 23); // HH:MM:SS.mmm
+  const arrow = entry.direction === "out" ? "→" : "←";
+  const message = entry.message;
+
+  let summary: string;
+  if (message.type === "request") {
+    const request = message as DAPRequest;
+    summary = `request ${request.command} #${request.seq}`;
+  } else if (message.type === "response") {
+    const response = message as DAPResponse;
+    summary = `response ${response.command} #${response.request_seq} ${response.success ? "ok" : `failed: ${response.message}`}`;
+  } else {
+    const event = message as DAPEvent;
+    summary = `event ${event.event}`;
+  }
+
+  const json = truncatedPayload(message);
+  return `${time} ${arrow} ${summary}${json ? ` ${json}` : ""}`;
+}
+
+/**
+ * One DAP message for structured results: its header fields, with the
+ * payload truncated the same way as in the text.
+ */
+function toTrafficEntryOutput(entry: DAPTrafficEntry) {
+  const message = entry.message;
+  const request = message as DAPRequest;
+  const response = message as DAPResponse;
+  const event = message as DAPEvent;
+
+  return {
+    time: entry.time,
+    direction: entry.direction,
+    type: message.type,
+    seq: message.seq,
+    command: message.type === "request" || message.type === "response" ? request.command : undefined,
+    event: message.type === "event" ? event.event : undefined,
+    requestSeq: message.type === "response" ? response.request_seq : undefined,
+    success: message.type === "response" ? response.success : undefined,
+    message: message.type === "response" ? response.message : undefined,
+    payload: truncatedPayload(message) || undefined,
+  };
+}
+
+/**
+ * A message's arguments or body as JSON, cut to MAX_PAYLOAD_CHARS.
+ */
+function truncatedPayload(message: DAPMessage): string {
+  const payload =
+    message.type === "request"
+      ? (message as DAPRequest).arguments
+      : message.type === "response"
+        ? (message as DAPResponse).body
+        : (message as DAPEvent).body;
+
+  const json = payload !== undefined ? JSON.stringify(payload) : "";
+  return json.length > MAX_PAYLOAD_CHARS ? json.substring(0, MAX_PAYLOAD_CHARS) + "..." : json;
+}
@@ -14,10 +14,69 @@ export const sessionIdParam = z
   .describe("Session ID (defaults to current session). Use list_sessions to see available sessions.");
 
 /**
- * Create a simple text response for tool callbacks.
- * Returns the proper format expected by the MCP SDK.
+ * Debug adapter transport parameter schema - used by launch and attach.
+ * Optional, defaults to spawning netcoredbg locally over stdio.
  */
-export function textResponse(text: string) {
+export const transportParam = z
+  .discriminatedUnion("type", [
+    z.object({
+      type: z.literal("stdio"),
+      debuggerPath: z.string().optional().describe("Path to netcoredbg (default: netcoredbg on PATH)"),
+    }),
+    z.object({
+      type: z.literal("tcp"),
+      host: z.string().optional().describe("Host running 'netcoredbg --server' (default: 127.0.0.1)"),
+      port: z.number().describe("Port passed to 'netcoredbg --server=<port>'"),
+    }),
+    z.object({
+      type: z.literal("pipe"),
+      pipeProgram: z.string().describe("Program that runs the adapter, e.g. 'ssh' or 'docker'"),
+      pipeArgs: z
+        .array(z.string())
+        .optional()
+        .describe("Arguments before the debugger path, e.g. ['exec', '-i', 'api']"),
+      debuggerPath: z.string().optional().describe("netcoredbg path on the target (default: netcoredbg)"),
+    }),
+    z.object({
+      type: z.literal("replay"),
+      file: z.string().describe("DAP recording (.dap.jsonl) to serve in place of netcoredbg"),
+    }),
+  ])
+  .optional()
+  .describe(
+    "How to reach the debug adapter: local stdio (default), TCP to 'netcoredbg --server', a pipe command such as ssh/docker exec, or replay of a DAP recording. Program paths are resolved on the adapter's side."
+  );
+
+/**
+ * DAP recording parameter schema - used by launch and attach.
+ */
+export const recordDapParam = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe("Record all DAP traffic to a JSONL file (replayable with transport type 'replay')");
+
+/**
+ * Create a response with text for humans and the same data as structured
+ * content, for tools that declare an output schema.
+ */
+export function structuredResponse<T extends Record<string, unknown>>(text: string, structuredContent: T) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text,
+      },
+    ],
+    structuredContent,
+  };
+}
+
+/**
+ * Create an error response. Tools with an output schema must flag errors
+ * returned as text so clients don't expect structured content.
+ */
+export function errorResponse(text: string) {
   return {
     content: [
       {
@@ -25,5 +84,6 @@ export function textResponse(text: string) {
         text,
       },
     ],
+    isError: true,
   };
 }
@@ -4,8 +4,19 @@
 
 import * as path from "path";
 import * as fs from "fs";
-import { StackFrame, Variable } from "./dap-client.js";
+import { StackFrame, Variable, AdapterHealth, Breakpoint } from "./dap-client.js";
 import { sessionManager } from "./session-manager.js";
+import {
+  StopInfo,
+  SessionConfig,
+  ExitInfo,
+  SourceContext,
+  TraceResult,
+  WatchExpression,
+  WatchValue,
+  SnapshotDiff,
+  BreakpointOptions,
+} from "./session.js";
 
 /**
  * Check if source code is newer than compiled code.
@@ -58,6 +69,223 @@ export function formatVariable(v: Variable, indent = 0): string {
   return `${prefix}${v.name}${type} = ${v.value}`;
 }
 
+/**
+ * Describe a breakpoint's condition, hit condition and log message.
+ */
+export function formatBreakpointOptions(options: BreakpointOptions): string {
+  const parts: string[] = [];
+  if (options.condition) parts.push(`condition: ${options.condition}`);
+  if (options.hitCondition) parts.push(`hit: ${options.hitCondition}`);
+  if (options.logMessage) parts.push(`log: ${options.logMessage}`);
+  return parts.length > 0 ? ` (${parts.join(", ")})` : "";
+}
+
+/**
+ * Describe a breakpoint's verified state, with the adapter's reason when pending.
+ */
+export function formatBreakpointState(bp: Breakpoint): string {
+  if (bp.verified) return "[verified]";
+  return bp.message ? `[pending: ${bp.message}]` : "[pending]";
+}
+
+/**
+ * Format the result of a blocking continue/step for display.
+ */
+export function formatStopInfo(info: StopInfo): string {
+  switch (info.event) {
+    case "exited":
+      return `Program exited${info.exitCode !== undefined ? ` with code ${info.exitCode}` : ""}`;
+    case "terminated":
+      return "Debug session terminated";
+    case "timeout":
+      return "Still running (no stop before timeout). Use 'status' or 'pause' to check on it.";
+  }
+
+  let text = `Stopped (${info.reason || "unknown"})`;
+  if (info.threadId) {
+    text += ` on thread ${info.threadId}`;
+  }
+  if (info.description) {
+    text += `: ${info.description}`;
+  }
+  if (info.frame) {
+    text += `\n${formatStackFrame(info.frame)}`;
+  }
+  if (info.locals && info.locals.length > 0) {
+    text += `\nLocals:\n${info.locals.map((v) => formatVariable(v, 1)).join("\n")}`;
+    const hidden = (info.totalLocals || 0) - info.locals.length;
+    if (hidden > 0) {
+      text += `\n  ... ${hidden} more (use 'scopes'/'variables' to see all)`;
+    }
+  }
+  return text;
+}
+
+/**
+ * Format post-mortem data for a session whose debuggee has exited.
+ */
+export function formatExitInfo(exit: ExitInfo, outputLines = 10): string {
+  let text = `Exit code: ${exit.exitCode ?? "unknown"}`;
+  text += `\nExited at: ${exit.exitTime.toLocaleString()}`;
+
+  if (exit.lastStop) {
+    text += `\nLast stop: ${exit.lastStop.reason} at ${exit.lastStop.time.toLocaleTimeString()}`;
+    if (exit.lastStop.frame) {
+      text += `\n  ${formatStackFrame(exit.lastStop.frame)}`;
+    }
+  }
+
+  if (exit.unhandledException) {
+    text += `\nUnhandled exception: ${exit.unhandledException}`;
+  }
+
+  const tail = exit.outputTail.slice(-outputLines);
+  if (tail.length > 0) {
+    text += `\nLast output:\n${tail.join("")}`;
+  }
+
+  return text;
+}
+
+/**
+ * Whether a watch's value differs between the last two stops.
+ */
+export function watchChanged(watch: WatchExpression): boolean {
+  if (!watch.current || !watch.previous) return false;
+  return watch.current.value !== watch.previous.value || watch.current.error !== watch.previous.error;
+}
+
+/**
+ * Format a watch expression with its value, and the previous value when it
+ * changed since the last stop.
+ */
+export function formatWatch(watch: WatchExpression): string {
+  const describe = (v: WatchValue) =>
+    v.error ? `<error: ${v.error}>` : `${v.value}${v.type ? ` (${v.type})` : ""}`;
+
+  let text = `#${watch.id} ${watch.expression}`;
+  if (!watch.current) {
+    return `${text} (not evaluated yet)`;
+  }
+  text += ` = ${describe(watch.current)}`;
+  if (watchChanged(watch)) {
+    text += `  [changed, was ${describe(watch.previous!)}]`;
+  }
+  return text;
+}
+
+/**
+ * Format a trace as a compact transcript: one line per step, indented by
+ * call depth, with the locals that changed ("name: old → new", or
+ * "name = value" for new locals).
+ */
+export function formatTrace(trace: TraceResult, maxValueLength = 60): string {
+  const short = (value: string) =>
+    value.length > maxValueLength ? `${value.slice(0, maxValueLength)}…` : value;
+  const width = String(trace.steps.length).length;
+
+  let text = `Start: ${formatStackFrame(trace.start)}`;
+  let previous = trace.start;
+  trace.steps.forEach((step, i) => {
+    const indent = "  ".repeat(Math.max(0, step.depth - trace.startDepth + 1));
+    const file = step.frame.source?.path || step.frame.source?.name;
+    const location =
+      step.frame.name === previous.name && file === (previous.source?.path || previous.source?.name)
+        ? `:${step.frame.line}`
+        : `${step.frame.name} at ${file ? path.basename(file) : "unknown"}:${step.frame.line}`;
+    const changes = step.changes
+      .map((c) => (c.from === undefined ? `${c.name} = ${short(c.to)}` : `${c.name}: ${short(c.from)} → ${short(c.to)}`))
+      .join(", ");
+    text += `\n${String(i + 1).padStart(width)}${indent}${location}${changes ? `  ${changes}` : ""}`;
+    previous = step.frame;
+  });
+
+  switch (trace.endReason) {
+    case "maxSteps":
+      text += `\nEnded: step limit reached (${trace.steps.length} steps)`;
+      break;
+    case "line":
+      text += "\nEnded: reached target line";
+      break;
+    case "frameExit":
+      text += "\nEnded: starting frame returned";
+      break;
+    case "condition":
+      text += "\nEnded: condition is true";
+      break;
+    case "stopped":
+      text += `\nEnded: stopped (${trace.stopReason || "unknown"})`;
+      break;
+    case "exited":
+      text += `\nEnded: program exited${trace.exitCode !== undefined ? ` with code ${trace.exitCode}` : ""}`;
+      break;
+    case "terminated":
+      text += "\nEnded: debug session terminated";
+      break;
+    case "timeout":
+      text += "\nEnded: step did not complete before timeout (program still running)";
+      break;
+  }
+  return text;
+}
+
+/**
+ * Format a snapshot diff as one line per path: "+" added, "-" removed,
+ * "~" changed ("path: old -> new").
+ */
+export function formatSnapshotDiff(diff: SnapshotDiff): string {
+  const label = (name: string) => (name === "current" ? "current state" : `'${name}'`);
+  let text = `Diff ${label(diff.from.name)} -> ${label(diff.to.name)} (${formatStackFrame(diff.to.frame)})`;
+
+  const lines = [
+    ...diff.changed.map((c) => `~ ${c.path}: ${c.from} -> ${c.to}`),
+    ...diff.added.map((a) => `+ ${a.path} = ${a.value}`),
+    ...diff.removed.map((r) => `- ${r.path} = ${r.value}`),
+  ];
+  text += lines.length > 0 ? `\n${lines.join("\n")}` : "\nNo differences";
+
+  if (diff.from.truncated || diff.to.truncated) {
+    text += "\n(some large containers were only partly captured)";
+  }
+  return text;
+}
+
+/**
+ * Format source lines with line numbers. The current line is marked with
+ * "→", breakpoints with "●" (verified) or "○" (pending).
+ */
+export function formatSourceContext(context: SourceContext, indent = 0): string {
+  const prefix = "  ".repeat(indent);
+  const width = String(context.lines[context.lines.length - 1]?.line ?? context.line).length;
+  return context.lines
+    .map((l) => {
+      const current = l.current ? "→" : " ";
+      const bp = l.breakpoint === "verified" ? "●" : l.breakpoint === "pending" ? "○" : " ";
+      return `${prefix}${current}${bp} ${String(l.line).padStart(width)} | ${l.text}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Describe an unresponsive adapter and how to recover.
+ * Returns an empty string while the adapter is healthy.
+ */
+export function formatAdapterHealth(
+  health: AdapterHealth | undefined,
+  mode: SessionConfig["mode"] | undefined
+): string {
+  if (!health || health.state === "healthy") return "";
+
+  const last = health.lastTimeout
+    ? ` (last: '${health.lastTimeout.command}' at ${health.lastTimeout.at.toLocaleTimeString()})`
+    : "";
+  const hint =
+    mode === "launch"
+      ? "Use 'restart' to restart the adapter and program."
+      : "Use 'terminate_session' and attach again to restart the adapter.";
+  return `⚠️ Debug adapter unresponsive: ${health.consecutiveTimeouts} consecutive requests timed out${last}. ${hint}`;
+}
+
 /**
  * Format session prefix for multi-session output clarity.
  * Only shows prefix when there are multiple active sessions.
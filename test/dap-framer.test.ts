@@ -0,0 +1,114 @@
+/**
+ * Tests for DAPMessageFramer: splitting the adapter's byte stream into
+ * message bodies across arbitrary chunk boundaries.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DAPMessageFramer } from "../src/dap-client.js";
+
+function frame(body: string): Buffer {
+  const bytes = Buffer.from(body, "utf8");
+  return Buffer.concat([Buffer.from(`Content-Length: ${bytes.length}\r\n\r\n`, "ascii"), bytes]);
+}
+
+function collectErrors(): { errors: Error[]; framer: DAPMessageFramer } {
+  const errors: Error[] = [];
+  return { errors, framer: new DAPMessageFramer((err) => errors.push(err)) };
+}
+
+describe("DAPMessageFramer", () => {
+  it("returns a message that arrives in one chunk", () => {
+    const framer = new DAPMessageFramer();
+    const body = JSON.stringify({ seq: 1, type: "event", event: "initialized" });
+
+    assert.deepEqual(framer.push(frame(body)), [body]);
+    assert.equal(framer.pendingBytes(), 0);
+  });
+
+  it("keeps a multi-byte UTF-8 character split across chunks intact", () => {
+    const framer = new DAPMessageFramer();
+    const body = JSON.stringify({ output: "Größe: 5 € ✓ 🚀" });
+    const bytes = frame(body);
+
+    // Split inside the 4-byte emoji sequence
+    const emojiStart = bytes.indexOf(Buffer.from("🚀", "utf8"));
+    const first = bytes.subarray(0, emojiStart + 2);
+    const second = bytes.subarray(emojiStart + 2);
+
+    assert.deepEqual(framer.push(first), []);
+    assert.deepEqual(framer.push(second), [body]);
+    assert.equal(framer.pendingBytes(), 0);
+  });
+
+  it("uses Content-Length as a byte count, not a character count", () => {
+    const framer = new DAPMessageFramer();
+    const first = JSON.stringify({ output: "äöü" });
+    const second = JSON.stringify({ seq: 2 });
+
+    assert.deepEqual(framer.push(Buffer.concat([frame(first), frame(second)])), [first, second]);
+  });
+
+  it("reassembles a body split over several chunks", () => {
+    const framer = new DAPMessageFramer();
+    const body = JSON.stringify({ seq: 3, type: "response", body: { text: "x".repeat(500) } });
+    const bytes = frame(body);
+
+    const results: string[] = [];
+    for (let i = 0; i < bytes.length; i += 7) {
+      results.push(...framer.push(bytes.subarray(i, i + 7)));
+    }
+
+    assert.deepEqual(results, [body]);
+    assert.equal(framer.pendingBytes(), 0);
+  });
+
+  it("returns several messages that arrive in one chunk", () => {
+    const framer = new DAPMessageFramer();
+    const bodies = [1, 2, 3].map((seq) => JSON.stringify({ seq, type: "event", event: "output" }));
+    const partial = frame(JSON.stringify({ seq: 4 }));
+
+    const chunk = Buffer.concat([...bodies.map(frame), partial.subarray(0, 10)]);
+    assert.deepEqual(framer.push(chunk), bodies);
+    assert.equal(framer.pendingBytes(), 10);
+  });
+
+  it("skips a header without Content-Length and reports it", () => {
+    const { errors, framer } = collectErrors();
+    const body = JSON.stringify({ seq: 5 });
+
+    const chunk = Buffer.concat([Buffer.from("Content-Type: application/json\r\n\r\n", "ascii"), frame(body)]);
+    assert.deepEqual(framer.push(chunk), [body]);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0].message, /malformed DAP header/);
+  });
+
+  it("skips a header with an invalid Content-Length and reports it", () => {
+    const { errors, framer } = collectErrors();
+    const body = JSON.stringify({ seq: 6 });
+
+    const chunk = Buffer.concat([Buffer.from("Content-Length: abc\r\n\r\n", "ascii"), frame(body)]);
+    assert.deepEqual(framer.push(chunk), [body]);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0].message, /malformed DAP header/);
+  });
+
+  it("discards stray output that never becomes a header", () => {
+    const { errors, framer } = collectErrors();
+    const body = JSON.stringify({ seq: 7 });
+
+    assert.deepEqual(framer.push(Buffer.from("log line without a blank line\n".repeat(50), "ascii")), []);
+    assert.ok(framer.pendingBytes() < 1024);
+    assert.deepEqual(framer.push(frame(body)), [body]);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0].message, /non-DAP output/);
+  });
+
+  it("drops buffered bytes on reset", () => {
+    const framer = new DAPMessageFramer();
+    framer.push(frame(JSON.stringify({ seq: 8 })).subarray(0, 12));
+
+    framer.reset();
+    assert.equal(framer.pendingBytes(), 0);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Tests for the replay transport: a recorded .dap.jsonl session served in
+ * place of netcoredbg, through DAPClient and DebugSession.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { DAPClient, StoppedEventBody } from "../src/dap-client.js";
+import { DebugSession } from "../src/session.js";
+
+const RECORDING = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "stop-at-breakpoint.dap.jsonl");
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise((r) => setTimeout(r, 10));
+  }
+}
+
+describe("ReplayTransport", () => {
+  it("answers live requests with recorded responses under the live request seq", { timeout: 5000 }, async () => {
+    const client = new DAPClient({ type: "replay", file: RECORDING });
+
+    // Recorded seqs start at 11; the response only resolves if request_seq is rewritten
+    const capabilities = await client.start();
+    assert.equal(capabilities.supportsConfigurationDoneRequest, true);
+    assert.equal(capabilities.supportsConditionalBreakpoints, true);
+
+    await client.disconnect(true);
+  });
+
+  it("matches the next recorded request with the same command, skipping others", { timeout: 5000 }, async () => {
+    const client = new DAPClient({ type: "replay", file: RECORDING });
+    await client.start();
+
+    // launch and configurationDone are skipped
+    const breakpoints = await client.setBreakpoints("/app/Program.cs", [{ line: 6 }]);
+    assert.deepEqual(breakpoints, [{ id: 1, verified: true, line: 6 }]);
+
+    await client.disconnect(true);
+  });
+
+  it("fails requests that have no recorded counterpart left", { timeout: 5000 }, async () => {
+    const client = new DAPClient({ type: "replay", file: RECORDING });
+    await client.start();
+
+    await assert.rejects(client.sendRequest("evaluate", { expression: "x" }), /no recorded 'evaluate' request left/);
+    // initialize was already consumed
+    await assert.rejects(client.sendRequest("initialize", {}), /no recorded 'initialize' request left/);
+
+    await client.disconnect(true);
+  });
+
+  it("plays back events recorded after a response", { timeout: 5000 }, async () => {
+    const client = new DAPClient({ type: "replay", file: RECORDING });
+    await client.start();
+
+    const stopped = new Promise<StoppedEventBody>((resolve) => client.once("stopped", resolve));
+    await client.continue(1);
+    const body = await stopped;
+    assert.equal(body.reason, "breakpoint");
+    assert.deepEqual(body.hitBreakpointIds, [1]);
+
+    await client.disconnect(true);
+  });
+
+  it("drives a DebugSession from launch to a breakpoint stop", { timeout: 5000 }, async () => {
+    const session = new DebugSession("replay-test");
+    await session.launch({ program: "/app/App.dll", transport: { type: "replay", file: RECORDING } });
+
+    const entry = await session.setBreakpoint("/app/Program.cs", 6);
+    assert.equal(entry.breakpoint.verified, true);
+
+    await session.continue();
+    await waitFor(() => session.getStatus().state === "stopped");
+    assert.equal(session.getStatus().stoppedReason, "breakpoint");
+
+    const [hit] = session.listBreakpoints();
+    assert.equal(hit.hitCount, 1);
+    assert.equal(hit.lastHit?.threadId, 1);
+
+    await session.terminate();
+  });
+});
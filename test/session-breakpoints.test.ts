@@ -0,0 +1,310 @@
+/**
+ * Tests for DebugSession's source breakpoint bookkeeping, against a fake
+ * adapter client that records every setBreakpoints payload.
+ */
+
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Breakpoint, SourceBreakpoint, StackFrame, StoppedEventBody } from "../src/dap-client.js";
+import { DebugSession } from "../src/session.js";
+
+// Private members the tests drive directly
+interface SessionInternals {
+  dapClient: FakeClient;
+  relocateAttachedBreakpoints(): Promise<void>;
+  applyBreakpoints(client: FakeClient): Promise<void>;
+  recordStop(body: StoppedEventBody): void;
+}
+
+interface FakeClient {
+  payloads: Map<string, SourceBreakpoint[][]>;
+  frames: StackFrame[]; // Returned by getStackTrace
+  isRunning(): boolean;
+  getCapabilities(): Record<string, boolean>;
+  setBreakpoints(file: string, specs: SourceBreakpoint[]): Promise<Breakpoint[]>;
+  getStackTrace(): Promise<StackFrame[]>;
+}
+
+// Answers every request with verified breakpoints at the requested lines
+function fakeClient(): FakeClient {
+  let nextId = 100;
+  const payloads = new Map<string, SourceBreakpoint[][]>();
+  const client: FakeClient = {
+    payloads,
+    frames: [],
+    isRunning: () => true,
+    getCapabilities: () => ({
+      supportsConditionalBreakpoints: true,
+      supportsHitConditionalBreakpoints: true,
+      supportsLogPoints: true,
+    }),
+    setBreakpoints: async (file, specs) => {
+      payloads.set(file, [...(payloads.get(file) || []), specs]);
+      return specs.map((spec) => ({ id: nextId++, verified: true, line: spec.line }));
+    },
+    getStackTrace: async () => client.frames,
+  };
+  return client;
+}
+
+function connectedSession(): { session: DebugSession; internals: SessionInternals; client: FakeClient } {
+  const session = new DebugSession("breakpoints-test");
+  const internals = session as unknown as SessionInternals;
+  const client = fakeClient();
+  internals.dapClient = client;
+  return { session, internals, client };
+}
+
+function lastPayload(client: FakeClient, file: string): SourceBreakpoint[] | undefined {
+  return client.payloads.get(file)?.at(-1);
+}
+
+let dir: string;
+let fileCount = 0;
+
+// A fresh source file per test, since relocation reads the file from disk
+function sourceFile(lines: string[]): string {
+  const file = path.join(dir, `Program${++fileCount}.cs`);
+  rewrite(file, lines);
+  return file;
+}
+
+function rewrite(file: string, lines: string[]): void {
+  fs.writeFileSync(file, lines.join("\n"));
+}
+
+before(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "netcoredbg-mcp-test-"));
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("relocateBreakpoints", () => {
+  it("moves a breakpoint to the line its content moved to, keeping its ID and options", async () => {
+    const { session, internals, client } = connectedSession();
+    const file = sourceFile(["class A {", "  void M() {", "    int x = 1;", "    Foo(x);", "  }", "}"]);
+    const { id } = await session.setBreakpoint(file, 4, { condition: "x > 0" });
+
+    rewrite(file, ["class A {", "  // added", "  // lines", "  void M() {", "    int x = 1;", "    Foo(x);", "  }", "}"]);
+    await internals.relocateAttachedBreakpoints();
+
+    const [entry] = session.listBreakpoints();
+    assert.equal(entry.id, id);
+    assert.deepEqual(entry.spec, { line: 6, condition: "x > 0" });
+    assert.deepEqual(lastPayload(client, file), [{ line: 6, condition: "x > 0" }]);
+    assert.match(session.getOutput().join(""), /Breakpoint Program\d+\.cs:4 moved to line 6/);
+  });
+
+  it("uses the neighbouring lines to pick between lines with the same content", async () => {
+    const { session, internals } = connectedSession();
+    const file = sourceFile(["void M() {", "  int b = 2;", "  Foo(x);", "}", "void N() {", "  int a = 1;", "  Foo(x);", "}"]);
+    await session.setBreakpoint(file, 7);
+
+    // N moves above M; M's identical line now sits at the old line number
+    rewrite(file, ["void N() {", "  int a = 1;", "  Foo(x);", "}", "void M() {", "  int b = 2;", "  Foo(x);", "}"]);
+    await internals.relocateAttachedBreakpoints();
+
+    assert.equal(session.listBreakpoints()[0].spec.line, 3);
+  });
+
+  it("keeps a breakpoint whose line is gone unplaced, and places it again once the line is back", async () => {
+    const { session, internals, client } = connectedSession();
+    const file = sourceFile(["void M() {", "  int y = 0;", "  int x = 1;", "  Foo(x);", "}"]);
+    const removed = await session.setBreakpoint(file, 2);
+    const kept = await session.setBreakpoint(file, 3, { condition: "x > 0" });
+
+    // The kept breakpoint moves onto the removed line's old line
+    rewrite(file, ["void M() {", "  int x = 1;", "  Foo(x);", "}"]);
+    await internals.relocateAttachedBreakpoints();
+
+    assert.deepEqual(lastPayload(client, file), [{ line: 2, condition: "x > 0" }]);
+    const unplaced = session.listBreakpoints().find((e) => e.id === removed.id)!;
+    assert.equal(unplaced.spec.line, 2);
+    assert.equal(unplaced.breakpoint.verified, false);
+    assert.match(unplaced.breakpoint.message!, /Line content no longer found after reload: int y = 0;/);
+    assert.match(session.getOutput().join(""), /Could not place breakpoint Program\d+\.cs:2/);
+
+    rewrite(file, ["void M() {", "  int x = 1;", "  Foo(x);", "  int y = 0;", "}"]);
+    await internals.relocateAttachedBreakpoints();
+
+    assert.deepEqual(
+      session.listBreakpoints().map((e) => [e.id, e.spec.line, e.breakpoint.verified]),
+      [
+        [removed.id, 4, true],
+        [kept.id, 2, true],
+      ]
+    );
+    assert.deepEqual(lastPayload(client, file), [{ line: 4 }, { line: 2, condition: "x > 0" }]);
+  });
+
+  it("leaves a breakpoint unplaced when its content now matches a line another breakpoint holds", async () => {
+    const { session, internals, client } = connectedSession();
+    const file = sourceFile(["void M() {", "  Foo(x);", "}", "void N() {", "  Foo(x);", "}"]);
+    await session.setBreakpoint(file, 2);
+    const second = await session.setBreakpoint(file, 5);
+
+    rewrite(file, ["void M() {", "  Foo(x);", "}"]);
+    await internals.relocateAttachedBreakpoints();
+
+    assert.deepEqual(lastPayload(client, file), [{ line: 2 }]);
+    const entry = session.listBreakpoints().find((e) => e.id === second.id)!;
+    assert.equal(entry.breakpoint.message, "Moved to line 2, which already has a breakpoint");
+  });
+});
+
+describe("setBreakpointsEnabled", () => {
+  it("leaves a disabled breakpoint out of the payload but keeps its ID and options", async () => {
+    const { session, client } = connectedSession();
+    const file = sourceFile(["void M() {", "  int x = 1;", "  Foo(x);", "}"]);
+    const first = await session.setBreakpoint(file, 2, { condition: "x > 0", hitCondition: "3" });
+    await session.setBreakpoint(file, 3);
+
+    const changed = await session.setBreakpointsEnabled(false, { file, line: 2 });
+
+    assert.deepEqual(changed.breakpoints.map((e) => e.id), [first.id]);
+    assert.deepEqual(lastPayload(client, file), [{ line: 3 }]);
+    const disabled = session.listBreakpoints().find((e) => e.id === first.id)!;
+    assert.equal(disabled.enabled, false);
+    assert.deepEqual(disabled.breakpoint, { verified: false, message: "Disabled" });
+    assert.deepEqual(disabled.spec, { line: 2, condition: "x > 0", hitCondition: "3" });
+
+    await session.setBreakpointsEnabled(true, { file, line: 2 });
+
+    assert.deepEqual(lastPayload(client, file), [{ line: 2, condition: "x > 0", hitCondition: "3" }, { line: 3 }]);
+    const enabled = session.listBreakpoints().find((e) => e.id === first.id)!;
+    assert.equal(enabled.enabled, true);
+    assert.equal(enabled.breakpoint.verified, true);
+  });
+
+  it("disables every breakpoint in a file", async () => {
+    const { session, client } = connectedSession();
+    const file = sourceFile(["void M() {", "  int x = 1;", "  Foo(x);", "}"]);
+    await session.setBreakpoint(file, 2);
+    await session.setBreakpoint(file, 3);
+
+    const changed = await session.setBreakpointsEnabled(false, { file });
+
+    assert.equal(changed.breakpoints.length, 2);
+    assert.deepEqual(lastPayload(client, file), []);
+    assert.ok(session.listBreakpoints().every((e) => !e.enabled));
+  });
+
+  it("keeps the previous state when the adapter rejects the change", async () => {
+    const { session, client } = connectedSession();
+    const file = sourceFile(["void M() {", "  Foo(x);", "}"]);
+    const { breakpoint } = await session.setBreakpoint(file, 2);
+
+    client.setBreakpoints = async () => {
+      throw new Error("adapter failure");
+    };
+    await assert.rejects(session.setBreakpointsEnabled(false), /adapter failure/);
+
+    const [entry] = session.listBreakpoints();
+    assert.equal(entry.enabled, true);
+    assert.deepEqual(entry.breakpoint, breakpoint);
+  });
+});
+
+describe("applyBreakpoints", () => {
+  it("sends only enabled breakpoints to a new adapter connection", async () => {
+    const { session, internals } = connectedSession();
+    const file = sourceFile(["void M() {", "  int x = 1;", "  Foo(x);", "}"]);
+    const disabled = await session.setBreakpoint(file, 2, { condition: "x > 0" });
+    const enabled = await session.setBreakpoint(file, 3, { logMessage: "x = {x}" });
+    await session.setBreakpointsEnabled(false, { file, line: 2 });
+    const previousId = enabled.breakpoint.id;
+
+    const next = fakeClient();
+    await internals.applyBreakpoints(next);
+
+    assert.deepEqual(next.payloads.get(file), [[{ line: 3, logMessage: "x = {x}" }]]);
+    const entries = session.listBreakpoints();
+    assert.deepEqual(entries.find((e) => e.id === disabled.id)!.breakpoint, { verified: false, message: "Disabled" });
+    // The new connection's result replaces the old one
+    const bound = entries.find((e) => e.id === enabled.id)!.breakpoint;
+    assert.equal(bound.verified, true);
+    assert.notEqual(bound.id, previousId);
+  });
+});
+
+describe("breakpoint hits", () => {
+  it("counts a stop against the breakpoints in hitBreakpointIds", async () => {
+    const { session, internals } = connectedSession();
+    const file = sourceFile(["void M() {", "  int x = 1;", "  Foo(x);", "}"]);
+    const hit = await session.setBreakpoint(file, 2);
+    const other = await session.setBreakpoint(file, 3);
+
+    internals.recordStop({ reason: "breakpoint", threadId: 4, hitBreakpointIds: [hit.breakpoint.id!] });
+    internals.recordStop({ reason: "breakpoint", threadId: 5, hitBreakpointIds: [hit.breakpoint.id!] });
+
+    assert.equal(hit.hitCount, 2);
+    assert.equal(hit.lastHit?.threadId, 5);
+    assert.equal(other.hitCount, 0);
+  });
+
+  it("matches the top frame's location when the adapter reports no hit IDs", async () => {
+    const { session, internals, client } = connectedSession();
+    const file = sourceFile(["void M() {", "  int x = 1;", "  Foo(x);", "}"]);
+    const entry = await session.setBreakpoint(file, 3);
+    client.frames = [{ id: 1, name: "A.M()", line: 3, column: 5, source: { path: file } }];
+
+    internals.recordStop({ reason: "breakpoint", threadId: 1 });
+    // The top frame is fetched in the background
+    await new Promise((r) => setTimeout(r, 0));
+
+    assert.equal(entry.hitCount, 1);
+    assert.equal(entry.lastHit?.threadId, 1);
+  });
+
+  it("doesn't count stops for other reasons or at disabled breakpoints", async () => {
+    const { session, internals } = connectedSession();
+    const file = sourceFile(["void M() {", "  int x = 1;", "  Foo(x);", "}"]);
+    const stepped = await session.setBreakpoint(file, 2);
+    const disabled = await session.setBreakpoint(file, 3);
+    const disabledId = disabled.breakpoint.id!;
+    await session.setBreakpointsEnabled(false, { file, line: 3 });
+
+    internals.recordStop({ reason: "step", threadId: 1, hitBreakpointIds: [stepped.breakpoint.id!] });
+    internals.recordStop({ reason: "breakpoint", threadId: 1, hitBreakpointIds: [disabledId] });
+
+    assert.equal(stepped.hitCount, 0);
+    assert.equal(disabled.hitCount, 0);
+  });
+});
+
+describe("removeBreakpointById", () => {
+  it("removes a source breakpoint and re-sends the rest of its file", async () => {
+    const { session, client } = connectedSession();
+    const file = sourceFile(["void M() {", "  int x = 1;", "  Foo(x);", "}"]);
+    const removed = await session.setBreakpoint(file, 2);
+    const kept = await session.setBreakpoint(file, 3);
+
+    assert.deepEqual(await session.removeBreakpointById(removed.id), { file, line: 2 });
+    assert.deepEqual(lastPayload(client, file), [{ line: 3 }]);
+    assert.deepEqual(session.listBreakpoints().map((e) => e.id), [kept.id]);
+  });
+
+  it("removes an unplaced breakpoint without touching the one now on its line", async () => {
+    const { session, internals, client } = connectedSession();
+    const file = sourceFile(["void M() {", "  int y = 0;", "  int x = 1;", "}"]);
+    const unplaced = await session.setBreakpoint(file, 2);
+    const moved = await session.setBreakpoint(file, 3);
+    rewrite(file, ["void M() {", "  int x = 1;", "}"]);
+    await internals.relocateAttachedBreakpoints();
+
+    assert.deepEqual(await session.removeBreakpointById(unplaced.id), { file, line: 2 });
+    assert.deepEqual(lastPayload(client, file), [{ line: 2 }]);
+    assert.deepEqual(session.listBreakpoints().map((e) => [e.id, e.spec.line, e.breakpoint.verified]), [[moved.id, 2, true]]);
+  });
+
+  it("rejects an unknown ID", async () => {
+    const { session } = connectedSession();
+
+    await assert.rejects(session.removeBreakpointById(99), /No breakpoint with ID 99/);
+  });
+});